@@ -6,11 +6,21 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { ThemeProvider } from "@/components/theme-provider";
 import Home from "@/pages/home";
 import NotFound from "@/pages/not-found";
+import AuthPage from "@/pages/auth-page";
+import VoiceHistory from "@/pages/voice-history";
+import { AuthProvider, useAuth } from "@/hooks/use-auth";
+import { ProtectedRoute } from "@/lib/protected-route";
+import { useRealtimeUpdates } from "@/hooks/use-realtime-updates";
 
 function Router() {
+  const { user } = useAuth();
+  useRealtimeUpdates(user?.id ?? null);
+
   return (
     <Switch>
-      <Route path="/" component={Home} />
+      <ProtectedRoute path="/" component={Home} />
+      <ProtectedRoute path="/voice-history" component={VoiceHistory} />
+      <Route path="/auth" component={AuthPage} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -20,10 +30,12 @@ function App() {
   return (
     <ThemeProvider defaultTheme="system" storageKey="voicetask-theme">
       <QueryClientProvider client={queryClient}>
-        <TooltipProvider>
-          <Toaster />
-          <Router />
-        </TooltipProvider>
+        <AuthProvider>
+          <TooltipProvider>
+            <Toaster />
+            <Router />
+          </TooltipProvider>
+        </AuthProvider>
       </QueryClientProvider>
     </ThemeProvider>
   );
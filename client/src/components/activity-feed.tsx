@@ -1,7 +1,7 @@
 import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Mic, Check, RefreshCw, Brain } from "lucide-react";
+import { Mic, Check, RefreshCw, Brain, AlertTriangle } from "lucide-react";
 import type { Activity } from "@shared/schema";
 
 export function ActivityFeed() {
@@ -19,6 +19,8 @@ export function ActivityFeed() {
         return <RefreshCw className="w-4 h-4 text-white" />;
       case "ai_insight":
         return <Brain className="w-4 h-4 text-white" />;
+      case "auth_error":
+        return <AlertTriangle className="w-4 h-4 text-white" />;
       default:
         return <Mic className="w-4 h-4 text-white" />;
     }
@@ -34,6 +36,8 @@ export function ActivityFeed() {
         return "bg-blue-400";
       case "ai_insight":
         return "bg-orange-500";
+      case "auth_error":
+        return "bg-red-500";
       default:
         return "bg-gray-500";
     }
@@ -0,0 +1,31 @@
+interface HighlightedTextProps {
+  text: string;
+  query: string;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Marks every occurrence of the query's words, ignoring case
+export function HighlightedText({ text, query }: HighlightedTextProps) {
+  const words = query.split(/\s+/).filter(Boolean).map(escapeRegExp);
+  if (words.length === 0) {
+    return <>{text}</>;
+  }
+
+  // With a capture group, split() puts the matches at the odd indexes
+  const parts = text.split(new RegExp(`(${words.join("|")})`, "gi"));
+
+  return (
+    <>
+      {parts.map((part, index) =>
+        index % 2 === 1 ? (
+          <mark key={index} className="bg-yellow-200 dark:bg-yellow-700 text-inherit rounded-sm px-0.5">
+            {part}
+          </mark>
+        ) : (
+          part
+        )
+      )}
+    </>
+  );
+}
@@ -0,0 +1,268 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarFooter,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarInput,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuBadge,
+  SidebarMenuButton,
+  SidebarMenuItem,
+} from "@/components/ui/sidebar";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Button } from "@/components/ui/button";
+import { Inbox, MoreHorizontal, Pencil, ArrowUp, ArrowDown, Trash2, Plus, Cloud } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { List, OpenTaskCount } from "@shared/schema";
+
+const LIST_COLORS = ["#3b82f6", "#22c55e", "#f97316", "#a855f7", "#ef4444", "#14b8a6", "#eab308"];
+
+interface ListSidebarProps {
+  selectedListId: number | null;
+  onSelectList: (listId: number | null) => void;
+}
+
+export function ListSidebar({ selectedListId, onSelectList }: ListSidebarProps) {
+  const [newListName, setNewListName] = useState("");
+  const [renamingListId, setRenamingListId] = useState<number | null>(null);
+  const [renameValue, setRenameValue] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: lists = [] } = useQuery<List[]>({
+    queryKey: ["/api/lists"],
+  });
+
+  // Keyed under "/api/tasks" so task changes refresh the badges
+  const { data: openCounts = [] } = useQuery<OpenTaskCount[]>({
+    queryKey: ["/api/tasks", "counts"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/tasks/counts");
+      return response.json();
+    },
+  });
+
+  const openCount = (listId: number | null) => openCounts
+    .filter(entry => listId === null || entry.listId === listId)
+    .reduce((sum, entry) => sum + entry.count, 0);
+
+  const onListError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message.replace(/^\d+: /, ""),
+      variant: "destructive",
+    });
+  };
+
+  const createListMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const response = await apiRequest("POST", "/api/lists", {
+        name,
+        color: LIST_COLORS[lists.length % LIST_COLORS.length],
+      });
+      return response.json();
+    },
+    onSuccess: (list: List) => {
+      setNewListName("");
+      queryClient.invalidateQueries({ queryKey: ["/api/lists"] });
+      onSelectList(list.id);
+    },
+    onError: onListError,
+  });
+
+  const renameListMutation = useMutation({
+    mutationFn: async ({ id, name }: { id: number; name: string }) => {
+      const response = await apiRequest("PATCH", `/api/lists/${id}`, { name });
+      return response.json();
+    },
+    onSuccess: () => {
+      setRenamingListId(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/lists"] });
+    },
+    onError: onListError,
+  });
+
+  const reorderListsMutation = useMutation({
+    mutationFn: async (ids: number[]) => {
+      const response = await apiRequest("POST", "/api/lists/reorder", { ids });
+      return response.json();
+    },
+    onSuccess: (reordered: List[]) => {
+      queryClient.setQueryData(["/api/lists"], reordered);
+    },
+    onError: onListError,
+  });
+
+  const deleteListMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("DELETE", `/api/lists/${id}`);
+      return response.json();
+    },
+    onSuccess: (_data, id) => {
+      if (selectedListId === id) {
+        onSelectList(null);
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/lists"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+      toast({
+        title: "List Deleted",
+        description: "Its tasks are still available under All Tasks.",
+      });
+    },
+    onError: onListError,
+  });
+
+  const handleCreateList = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newListName.trim()) {
+      createListMutation.mutate(newListName.trim());
+    }
+  };
+
+  const startRename = (list: List) => {
+    setRenamingListId(list.id);
+    setRenameValue(list.name);
+  };
+
+  const submitRename = (list: List) => {
+    const name = renameValue.trim();
+    if (!name || name === list.name) {
+      setRenamingListId(null);
+      return;
+    }
+    renameListMutation.mutate({ id: list.id, name });
+  };
+
+  const moveList = (index: number, offset: -1 | 1) => {
+    const ids = lists.map(l => l.id);
+    const target = index + offset;
+    if (target < 0 || target >= ids.length) return;
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    reorderListsMutation.mutate(ids);
+  };
+
+  return (
+    <Sidebar>
+      <SidebarHeader>
+        <h2 className="px-2 pt-2 text-lg font-semibold text-gray-900 dark:text-white">Lists</h2>
+      </SidebarHeader>
+
+      <SidebarContent>
+        <SidebarGroup>
+          <SidebarGroupContent>
+            <SidebarMenu>
+              <SidebarMenuItem>
+                <SidebarMenuButton
+                  isActive={selectedListId === null}
+                  onClick={() => onSelectList(null)}
+                >
+                  <Inbox />
+                  <span>All Tasks</span>
+                </SidebarMenuButton>
+                <SidebarMenuBadge>{openCount(null)}</SidebarMenuBadge>
+              </SidebarMenuItem>
+            </SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+
+        <SidebarGroup>
+          <SidebarGroupLabel>My Lists</SidebarGroupLabel>
+          <SidebarGroupContent>
+            <SidebarMenu>
+              {lists.map((list, index) => (
+                <SidebarMenuItem key={list.id}>
+                  {renamingListId === list.id ? (
+                    <SidebarInput
+                      autoFocus
+                      value={renameValue}
+                      onChange={(e) => setRenameValue(e.target.value)}
+                      onBlur={() => submitRename(list)}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") submitRename(list);
+                        if (e.key === "Escape") setRenamingListId(null);
+                      }}
+                    />
+                  ) : (
+                    <>
+                      <SidebarMenuButton
+                        isActive={selectedListId === list.id}
+                        onClick={() => onSelectList(list.id)}
+                      >
+                        <span
+                          className="w-2 h-2 rounded-full flex-shrink-0"
+                          style={{ backgroundColor: list.color || LIST_COLORS[0] }}
+                        />
+                        <span>{list.name}</span>
+                        {list.microsoftListId && <Cloud className="ml-auto text-gray-400" />}
+                      </SidebarMenuButton>
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <SidebarMenuAction showOnHover>
+                            <MoreHorizontal />
+                          </SidebarMenuAction>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent side="right" align="start">
+                          <DropdownMenuItem onClick={() => startRename(list)}>
+                            <Pencil className="w-4 h-4 mr-2" />
+                            Rename
+                          </DropdownMenuItem>
+                          <DropdownMenuItem disabled={index === 0} onClick={() => moveList(index, -1)}>
+                            <ArrowUp className="w-4 h-4 mr-2" />
+                            Move up
+                          </DropdownMenuItem>
+                          <DropdownMenuItem disabled={index === lists.length - 1} onClick={() => moveList(index, 1)}>
+                            <ArrowDown className="w-4 h-4 mr-2" />
+                            Move down
+                          </DropdownMenuItem>
+                          <DropdownMenuSeparator />
+                          <DropdownMenuItem
+                            className="text-red-600"
+                            onClick={() => deleteListMutation.mutate(list.id)}
+                          >
+                            <Trash2 className="w-4 h-4 mr-2" />
+                            Delete
+                          </DropdownMenuItem>
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </>
+                  )}
+                </SidebarMenuItem>
+              ))}
+            </SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+      </SidebarContent>
+
+      <SidebarFooter>
+        <form onSubmit={handleCreateList} className="flex items-center space-x-2">
+          <SidebarInput
+            placeholder="New list"
+            value={newListName}
+            onChange={(e) => setNewListName(e.target.value)}
+          />
+          <Button
+            type="submit"
+            size="sm"
+            variant="ghost"
+            disabled={!newListName.trim() || createListMutation.isPending}
+          >
+            <Plus className="w-4 h-4" />
+          </Button>
+        </form>
+      </SidebarFooter>
+    </Sidebar>
+  );
+}
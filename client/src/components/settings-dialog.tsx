@@ -13,18 +13,29 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Slider } from "@/components/ui/slider";
 import { Settings, Save, RefreshCw, CheckCircle, XCircle, ExternalLink } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import type { UpdateVoiceSettings, VoiceSettings } from "@shared/schema";
 
 interface MicrosoftConfig {
   clientId: string;
   tenantId: string;
   clientSecret: string;
   isConfigured: boolean;
+  redirectUri: string;
   isAuthenticated: boolean;
 }
 
+interface MicrosoftList {
+  id: string;
+  displayName: string;
+  selected: boolean;
+}
+
 export function SettingsDialog() {
   const [isOpen, setIsOpen] = useState(false);
   const [config, setConfig] = useState({
@@ -32,6 +43,8 @@ export function SettingsDialog() {
     tenantId: "",
     clientSecret: "",
   });
+  // null until the user changes the selection, so the server's selection shows by default
+  const [selectedListIds, setSelectedListIds] = useState<string[] | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -40,6 +53,58 @@ export function SettingsDialog() {
     enabled: isOpen,
   });
 
+  const { data: microsoftLists = [], isLoading: isLoadingLists } = useQuery<MicrosoftList[]>({
+    queryKey: ["/api/microsoft-lists"],
+    enabled: isOpen && !!microsoftConfig?.isAuthenticated,
+  });
+
+  const { data: voiceSettings } = useQuery<VoiceSettings>({
+    queryKey: ["/api/voice-settings"],
+    enabled: isOpen,
+  });
+
+  // Saved as soon as a control changes
+  const saveVoiceSettingsMutation = useMutation({
+    mutationFn: async (settings: UpdateVoiceSettings) => {
+      const response = await apiRequest("PATCH", "/api/voice-settings", settings);
+      return (await response.json()) as VoiceSettings;
+    },
+    onSuccess: (settings) => {
+      queryClient.setQueryData(["/api/voice-settings"], settings);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to save voice settings.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const effectiveListIds = selectedListIds ?? microsoftLists.filter(list => list.selected).map(list => list.id);
+
+  const saveListsMutation = useMutation({
+    mutationFn: async (listIds: string[]) => {
+      const response = await apiRequest("POST", "/api/microsoft-lists", { listIds });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Synced Lists Saved",
+        description: "Only the selected lists will be synced with Microsoft To Do.",
+      });
+      setSelectedListIds(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/microsoft-lists"] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to save synced lists.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const saveConfigMutation = useMutation({
     mutationFn: async (configData: typeof config) => {
       const response = await apiRequest("POST", "/api/microsoft-config", configData);
@@ -167,6 +232,12 @@ export function SettingsDialog() {
     setConfig(prev => ({ ...prev, [field]: value }));
   };
 
+  const toggleList = (listId: string, checked: boolean) => {
+    setSelectedListIds(checked
+      ? [...effectiveListIds, listId]
+      : effectiveListIds.filter(id => id !== listId));
+  };
+
   return (
     <Dialog open={isOpen} onOpenChange={setIsOpen}>
       <DialogTrigger asChild>
@@ -180,13 +251,73 @@ export function SettingsDialog() {
       </DialogTrigger>
       <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
         <DialogHeader>
-          <DialogTitle>Microsoft To Do Integration Settings</DialogTitle>
+          <DialogTitle>Settings</DialogTitle>
           <DialogDescription>
-            Configure your Microsoft Graph API credentials to enable real-time synchronization with Microsoft To Do.
+            Choose how voice commands are applied, and configure your Microsoft Graph API credentials to enable real-time synchronization with Microsoft To Do.
           </DialogDescription>
         </DialogHeader>
 
         <div className="space-y-6">
+          {/* Voice Commands */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Voice Commands</CardTitle>
+              <CardDescription>
+                Decide when a voice command shows its plan for you to check before anything changes.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-5">
+              <div className="flex items-center justify-between space-x-4">
+                <div>
+                  <Label htmlFor="previewCommands">Preview commands</Label>
+                  <p className="text-sm text-gray-600 dark:text-gray-400">
+                    Show what a command will do and let you edit it before it's applied.
+                  </p>
+                </div>
+                <Switch
+                  id="previewCommands"
+                  checked={voiceSettings?.previewCommands ?? false}
+                  onCheckedChange={(checked) => saveVoiceSettingsMutation.mutate({ previewCommands: checked })}
+                  disabled={!voiceSettings}
+                />
+              </div>
+
+              {voiceSettings?.previewCommands && (
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label>Apply without preview at</Label>
+                    <span className="text-sm text-gray-600 dark:text-gray-400">
+                      {voiceSettings.autoApplyConfidence}% confidence or more
+                    </span>
+                  </div>
+                  <Slider
+                    min={50}
+                    max={100}
+                    step={5}
+                    defaultValue={[voiceSettings.autoApplyConfidence]}
+                    onValueCommit={([value]) => saveVoiceSettingsMutation.mutate({ autoApplyConfidence: value })}
+                  />
+                  <p className="text-xs text-gray-500 dark:text-gray-400">At 100% every command is previewed.</p>
+                </div>
+              )}
+
+              <div className="flex items-center justify-between space-x-4">
+                <div>
+                  <Label htmlFor="confirmDestructive">Confirm deletions</Label>
+                  <p className="text-sm text-gray-600 dark:text-gray-400">
+                    Always ask before a voice command deletes a task.
+                  </p>
+                </div>
+                <Switch
+                  id="confirmDestructive"
+                  checked={voiceSettings?.confirmDestructive ?? true}
+                  onCheckedChange={(checked) => saveVoiceSettingsMutation.mutate({ confirmDestructive: checked })}
+                  disabled={!voiceSettings}
+                />
+              </div>
+            </CardContent>
+          </Card>
+
           {/* Connection Status */}
           <Card>
             <CardHeader>
@@ -245,6 +376,47 @@ export function SettingsDialog() {
             </CardContent>
           </Card>
 
+          {/* Synced Lists */}
+          {microsoftConfig?.isAuthenticated && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Synced Lists</CardTitle>
+                <CardDescription>
+                  Choose which Microsoft To Do lists are synced with VoiceTask.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {isLoadingLists ? (
+                  <RefreshCw className="w-4 h-4 animate-spin" />
+                ) : microsoftLists.length === 0 ? (
+                  <p className="text-sm text-gray-600 dark:text-gray-400">No lists found in Microsoft To Do.</p>
+                ) : (
+                  <div className="space-y-3">
+                    {microsoftLists.map((list) => (
+                      <div key={list.id} className="flex items-center space-x-2">
+                        <Checkbox
+                          id={`list-${list.id}`}
+                          checked={effectiveListIds.includes(list.id)}
+                          onCheckedChange={(checked) => toggleList(list.id, checked === true)}
+                        />
+                        <Label htmlFor={`list-${list.id}`}>{list.displayName}</Label>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                <Button
+                  onClick={() => saveListsMutation.mutate(effectiveListIds)}
+                  disabled={saveListsMutation.isPending || selectedListIds === null}
+                  className="w-full"
+                >
+                  <Save className="w-4 h-4 mr-2" />
+                  Save Synced Lists
+                </Button>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Microsoft Graph Configuration */}
           <Card>
             <CardHeader>
@@ -326,7 +498,7 @@ export function SettingsDialog() {
                 <div>
                   <p className="font-medium text-gray-900 dark:text-gray-100">4. Set Redirect URI:</p>
                   <p className="text-gray-600 dark:text-gray-400 ml-4">
-                    Add redirect URI: {window.location.origin}/auth/callback
+                    Add redirect URI: {microsoftConfig?.redirectUri ?? `${window.location.origin}/auth/callback`}
                   </p>
                 </div>
               </div>
@@ -0,0 +1,127 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Plus, X } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import type { ChecklistItem } from "@shared/schema";
+
+interface TaskChecklistProps {
+  taskId: number;
+  items: ChecklistItem[];
+  disabled?: boolean;
+}
+
+export function TaskChecklist({ taskId, items, disabled }: TaskChecklistProps) {
+  const [newStep, setNewStep] = useState("");
+  const [isAdding, setIsAdding] = useState(false);
+  const queryClient = useQueryClient();
+
+  const invalidateChecklist = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/checklist-items"] });
+  };
+
+  const addStepMutation = useMutation({
+    mutationFn: async (title: string) => {
+      const response = await apiRequest("POST", "/api/checklist-items", { taskId, title });
+      return response.json();
+    },
+    onSuccess: () => {
+      setNewStep("");
+      invalidateChecklist();
+    },
+  });
+
+  const toggleStepMutation = useMutation({
+    mutationFn: async (item: ChecklistItem) => {
+      const response = await apiRequest("PATCH", `/api/checklist-items/${item.id}`, { completed: !item.completed });
+      return response.json();
+    },
+    onSuccess: invalidateChecklist,
+  });
+
+  const deleteStepMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("DELETE", `/api/checklist-items/${id}`);
+      return response.json();
+    },
+    onSuccess: invalidateChecklist,
+  });
+
+  const completedCount = items.filter(item => item.completed).length;
+
+  const handleAddStep = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newStep.trim()) {
+      addStepMutation.mutate(newStep.trim());
+    }
+  };
+
+  return (
+    <div className="mt-3 space-y-2">
+      {items.length > 0 && (
+        <>
+          <div className="flex items-center space-x-2">
+            <Progress value={(completedCount / items.length) * 100} className="h-1.5 flex-1" />
+            <span className="text-xs text-gray-500 dark:text-gray-400">
+              {completedCount}/{items.length}
+            </span>
+          </div>
+          <ul className="space-y-1 pl-1">
+            {items.map((item) => (
+              <li key={item.id} className="group flex items-center space-x-2">
+                <Checkbox
+                  checked={!!item.completed}
+                  disabled={disabled}
+                  onCheckedChange={() => toggleStepMutation.mutate(item)}
+                />
+                <span className={`flex-1 text-sm text-gray-700 dark:text-gray-300 ${
+                  item.completed ? 'line-through text-gray-400 dark:text-gray-500' : ''
+                }`}>
+                  {item.title}
+                </span>
+                {!disabled && (
+                  <button
+                    className="opacity-0 group-hover:opacity-100 text-gray-400 hover:text-red-500"
+                    onClick={() => deleteStepMutation.mutate(item.id)}
+                    aria-label={`Delete step ${item.title}`}
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+
+      {!disabled && (isAdding ? (
+        <form onSubmit={handleAddStep} className="flex items-center space-x-2">
+          <Input
+            autoFocus
+            className="h-7 text-sm"
+            placeholder="Add a step"
+            value={newStep}
+            onChange={(e) => setNewStep(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Escape") setIsAdding(false);
+            }}
+          />
+          <Button type="submit" size="sm" variant="ghost" disabled={!newStep.trim() || addStepMutation.isPending}>
+            <Plus className="w-4 h-4" />
+          </Button>
+        </form>
+      ) : (
+        <button
+          className="text-xs text-blue-600 hover:text-blue-700 dark:text-blue-400"
+          onClick={() => setIsAdding(true)}
+        >
+          <Plus className="w-3 h-3 inline mr-1" />
+          Add step
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -1,9 +1,10 @@
 import { useState } from "react";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useQuery, useInfiniteQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
 import { 
   Calendar, 
   List, 
@@ -15,21 +16,114 @@ import {
   RefreshCw,
   Flame,
   Clock,
-  Lightbulb
+  Lightbulb,
+  Repeat,
+  Search,
+  X
 } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import type { Task } from "@shared/schema";
+import { TaskChecklist } from "@/components/task-checklist";
+import { HighlightedText } from "@/components/highlighted-text";
+import { TaskEditDialog } from "@/components/task-edit-dialog";
+import { useDebounce } from "@/hooks/use-debounce";
+import { invalidateUnlessLive } from "@/hooks/use-realtime-updates";
+import type { TaskListFilter } from "@/lib/task-cache";
+import { describeRecurrence } from "@shared/recurrence";
+import type { ChecklistItem, List as TaskList, Tag, Task, TaskPage, TaskSearchResult, TaskSort, TaskTag } from "@shared/schema";
 
-export function TaskDisplay() {
+const SORT_BY_VIEW_MODE: Record<"priority" | "date" | "list", TaskSort> = {
+  priority: "priority",
+  date: "dueDate",
+  list: "list",
+};
+
+interface TaskDisplayProps {
+  selectedListId: number | null;
+}
+
+export function TaskDisplay({ selectedListId }: TaskDisplayProps) {
   const [viewMode, setViewMode] = useState<"priority" | "date" | "list">("priority");
+  const [selectedTag, setSelectedTag] = useState<string | null>(null);
+  const [editingTask, setEditingTask] = useState<Task | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
-  const { data: tasks = [], isLoading } = useQuery<Task[]>({
-    queryKey: ["/api/tasks"],
+  const taskQuery: TaskListFilter = {
+    sort: SORT_BY_VIEW_MODE[viewMode],
+    listId: selectedListId,
+    tag: selectedTag,
+  };
+
+  // Keyed under "/api/tasks" so invalidating the task list refreshes every loaded page
+  const {
+    data: taskPages,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ["/api/tasks", taskQuery],
+    queryFn: async ({ pageParam }): Promise<TaskPage> => {
+      const params = new URLSearchParams({ sort: taskQuery.sort });
+      if (taskQuery.listId !== null) params.set("listId", String(taskQuery.listId));
+      if (taskQuery.tag) params.set("tag", taskQuery.tag);
+      if (pageParam) params.set("cursor", pageParam);
+
+      const response = await apiRequest("GET", `/api/tasks?${params}`);
+      return response.json();
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+
+  const pagedTasks = taskPages?.pages.flatMap(page => page.tasks) ?? [];
+
+  const [searchText, setSearchText] = useState("");
+  const searchTerm = useDebounce(searchText.trim(), 300);
+  const isSearching = searchTerm.length > 0;
+
+  const { data: searchResults = [] } = useQuery<TaskSearchResult[]>({
+    queryKey: ["/api/tasks", "search", searchTerm],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/tasks/search?q=${encodeURIComponent(searchTerm)}`);
+      return response.json();
+    },
+    enabled: isSearching,
+  });
+
+  // Search results come back ranked across every list, so they replace the paged view
+  const tasks = isSearching ? searchResults.map(result => result.task) : pagedTasks;
+
+  const { data: tags = [] } = useQuery<Tag[]>({
+    queryKey: ["/api/tags"],
+  });
+
+  const { data: taskTags = [] } = useQuery<TaskTag[]>({
+    queryKey: ["/api/task-tags"],
+  });
+
+  const { data: lists = [] } = useQuery<TaskList[]>({
+    queryKey: ["/api/lists"],
   });
 
+  const { data: checklistItems = [] } = useQuery<ChecklistItem[]>({
+    queryKey: ["/api/checklist-items"],
+  });
+
+  const listsById = new Map(lists.map(list => [list.id, list]));
+  const tagsById = new Map(tags.map(tag => [tag.id, tag]));
+  const tagsForTask = (taskId: number) => taskTags
+    .filter(link => link.taskId === taskId && tagsById.has(link.tagId))
+    .map(link => tagsById.get(link.tagId)!);
+  const selectedList = selectedListId !== null ? listsById.get(selectedListId) : undefined;
+
+  // "List" view: one group per list in sidebar order, tasks without a list last
+  const groupedTasks = [
+    ...lists.map(list => ({ key: `list-${list.id}`, name: list.name, tasks: tasks.filter(t => t.listId === list.id) })),
+    { key: "no-list", name: "No list", tasks: tasks.filter(t => t.listId === null || !listsById.has(t.listId)) },
+  ].filter(group => group.tasks.length > 0);
+
   const { data: insights } = useQuery<{urgent: number, dueSoon: number, suggested: number}>({
     queryKey: ["/api/priority-insights"],
   });
@@ -40,8 +134,9 @@ export function TaskDisplay() {
       return response.json();
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/priority-insights"] });
+      invalidateUnlessLive(queryClient);
+      // Completing a recurring task adds its next occurrence along with copied steps
+      queryClient.invalidateQueries({ queryKey: ["/api/checklist-items"] });
     },
   });
 
@@ -51,8 +146,7 @@ export function TaskDisplay() {
       return response.json();
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/priority-insights"] });
+      invalidateUnlessLive(queryClient);
       toast({
         title: "Task Deleted",
         description: "Task has been successfully deleted.",
@@ -66,7 +160,7 @@ export function TaskDisplay() {
       return response.json();
     },
     onSuccess: (data) => {
-      queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+      invalidateUnlessLive(queryClient);
       toast({
         title: "Sync Complete",
         description: data.error || `Synced ${data.syncedCount} tasks`,
@@ -122,6 +216,111 @@ export function TaskDisplay() {
     return d.toLocaleDateString();
   };
 
+  const renderTask = (task: Task) => (
+    <div
+      key={task.id}
+      className={`flex items-start space-x-4 p-4 border rounded-lg ${getTaskBorderColor(task.priority)} ${
+        task.completed ? 'opacity-70' : ''
+      }`}
+    >
+      <div className="flex items-center space-x-3 flex-1">
+        <div className="flex-shrink-0">
+          <Checkbox
+            checked={task.completed}
+            onCheckedChange={() => toggleComplete(task)}
+          />
+        </div>
+        <div className="flex-1">
+          <div className="flex items-center space-x-2 mb-1">
+            <h3 className={`font-medium text-gray-900 dark:text-white ${
+              task.completed ? 'line-through' : ''
+            }`}>
+              <HighlightedText text={task.title} query={searchTerm} />
+            </h3>
+            <Badge className={getPriorityColor(task.priority)}>
+              {task.completed ? 'Completed' : task.priority}
+            </Badge>
+          </div>
+          {task.description && (
+            <p className={`text-sm text-gray-600 dark:text-gray-400 ${
+              task.completed ? 'line-through' : ''
+            }`}>
+              <HighlightedText text={task.description} query={searchTerm} />
+            </p>
+          )}
+          <div className="flex items-center space-x-4 mt-2 text-xs text-gray-500 dark:text-gray-400">
+            {task.dueDate && (
+              <span>
+                <Calendar className="w-3 h-3 inline mr-1" />
+                {formatDate(task.dueDate)}
+              </span>
+            )}
+            {task.recurrence && (
+              <span>
+                <Repeat className="w-3 h-3 inline mr-1" />
+                {describeRecurrence(task.recurrence)}
+              </span>
+            )}
+            {tagsForTask(task.id).map(tag => (
+              <Badge
+                key={tag.id}
+                variant={selectedTag === tag.name ? "default" : "outline"}
+                className="cursor-pointer font-normal"
+                onClick={() => setSelectedTag(selectedTag === tag.name ? null : tag.name)}
+              >
+                #{tag.name}
+              </Badge>
+            ))}
+            {task.listId !== null && listsById.has(task.listId) && (
+              <span>
+                <List className="w-3 h-3 inline mr-1" />
+                {listsById.get(task.listId)!.name}
+              </span>
+            )}
+            {task.aiScore && task.aiScore > 0 && (
+              <span>
+                <Brain className="w-3 h-3 inline mr-1" />
+                AI Score: {task.aiScore}
+              </span>
+            )}
+          </div>
+          <TaskChecklist
+            taskId={task.id}
+            items={checklistItems.filter(item => item.taskId === task.id)}
+            disabled={!!task.completed}
+          />
+        </div>
+      </div>
+      <div className="flex items-center space-x-2">
+        {task.completed ? (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => toggleComplete(task)}
+          >
+            <Undo className="w-4 h-4" />
+          </Button>
+        ) : (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setEditingTask(task)}
+          >
+            <Edit className="w-4 h-4" />
+          </Button>
+        )}
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => deleteTask(task.id)}
+          className="text-red-500 hover:text-red-700"
+        >
+          <Trash2 className="w-4 h-4" />
+        </Button>
+      </div>
+    </div>
+  );
+
   if (isLoading) {
     return (
       <div className="space-y-4">
@@ -193,7 +392,10 @@ export function TaskDisplay() {
         <div className="p-6 border-b border-gray-200 dark:border-gray-700">
           <div className="flex items-center justify-between">
             <div>
-              <h2 className="text-xl font-bold text-gray-900 dark:text-white">Your Tasks</h2>
+              <h2 className="text-xl font-bold text-gray-900 dark:text-white">
+                {selectedList?.name ?? "Your Tasks"}
+                {selectedTag && <span className="ml-2 text-blue-600 dark:text-blue-400">#{selectedTag}</span>}
+              </h2>
               <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
                 Synced with Microsoft To Do
               </p>
@@ -235,124 +437,104 @@ export function TaskDisplay() {
               </Button>
             </div>
           </div>
+
+          {/* Search */}
+          <div className="relative mt-4">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+            <Input
+              className="pl-9 pr-9"
+              placeholder="Search tasks"
+              value={searchText}
+              onChange={(e) => setSearchText(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Escape") setSearchText("");
+              }}
+            />
+            {searchText && (
+              <button
+                className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600"
+                onClick={() => setSearchText("")}
+                aria-label="Clear search"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+
+          {/* Tag Filter */}
+          {tags.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2 mt-4">
+              <Badge
+                variant={selectedTag === null ? "default" : "outline"}
+                className="cursor-pointer font-normal"
+                onClick={() => setSelectedTag(null)}
+              >
+                All tags
+              </Badge>
+              {tags.map(tag => (
+                <Badge
+                  key={tag.id}
+                  variant={selectedTag === tag.name ? "default" : "outline"}
+                  className="cursor-pointer font-normal"
+                  onClick={() => setSelectedTag(selectedTag === tag.name ? null : tag.name)}
+                >
+                  #{tag.name}
+                </Badge>
+              ))}
+            </div>
+          )}
         </div>
         
         {/* Task Items */}
         <CardContent className="p-6">
           {tasks.length === 0 ? (
             <div className="text-center py-8">
-              <p className="text-gray-500 dark:text-gray-400">No tasks found.</p>
-              <p className="text-sm text-gray-400 dark:text-gray-500 mt-2">
-                Use voice commands to add your first task!
+              <p className="text-gray-500 dark:text-gray-400">
+                {isSearching ? `No tasks match "${searchTerm}".` : "No tasks found."}
               </p>
+              {!isSearching && (
+                <p className="text-sm text-gray-400 dark:text-gray-500 mt-2">
+                  Use voice commands to add your first task!
+                </p>
+              )}
             </div>
           ) : (
             <div className="space-y-4">
-              {tasks.map((task) => (
-                <div
-                  key={task.id}
-                  className={`flex items-start space-x-4 p-4 border rounded-lg ${getTaskBorderColor(task.priority)} ${
-                    task.completed ? 'opacity-70' : ''
-                  }`}
-                >
-                  <div className="flex items-center space-x-3 flex-1">
-                    <div className="flex-shrink-0">
-                      <Checkbox
-                        checked={task.completed}
-                        onCheckedChange={() => toggleComplete(task)}
-                      />
-                    </div>
-                    <div className="flex-1">
-                      <div className="flex items-center space-x-2 mb-1">
-                        <h3 className={`font-medium text-gray-900 dark:text-white ${
-                          task.completed ? 'line-through' : ''
-                        }`}>
-                          {task.title}
-                        </h3>
-                        <Badge className={getPriorityColor(task.priority)}>
-                          {task.completed ? 'Completed' : task.priority}
-                        </Badge>
-                      </div>
-                      {task.description && (
-                        <p className={`text-sm text-gray-600 dark:text-gray-400 ${
-                          task.completed ? 'line-through' : ''
-                        }`}>
-                          {task.description}
-                        </p>
-                      )}
-                      <div className="flex items-center space-x-4 mt-2 text-xs text-gray-500 dark:text-gray-400">
-                        {task.dueDate && (
-                          <span>
-                            <Calendar className="w-3 h-3 inline mr-1" />
-                            {formatDate(task.dueDate)}
-                          </span>
-                        )}
-                        <span>
-                          <List className="w-3 h-3 inline mr-1" />
-                          {task.listName}
-                        </span>
-                        {task.aiScore && task.aiScore > 0 && (
-                          <span>
-                            <Brain className="w-3 h-3 inline mr-1" />
-                            AI Score: {task.aiScore}
-                          </span>
-                        )}
-                      </div>
-                    </div>
+              {viewMode === "list" && !isSearching ? (
+                groupedTasks.map((group) => (
+                  <div key={group.key} className="space-y-4">
+                    <h3 className="text-sm font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400">
+                      {group.name}
+                    </h3>
+                    {group.tasks.map(renderTask)}
                   </div>
-                  <div className="flex items-center space-x-2">
-                    {task.completed ? (
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => toggleComplete(task)}
-                      >
-                        <Undo className="w-4 h-4" />
-                      </Button>
-                    ) : (
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => {
-                          toast({
-                            title: "Edit Task",
-                            description: "Task editing will be implemented in a future version.",
-                          });
-                        }}
-                      >
-                        <Edit className="w-4 h-4" />
-                      </Button>
-                    )}
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => deleteTask(task.id)}
-                      className="text-red-500 hover:text-red-700"
-                    >
-                      <Trash2 className="w-4 h-4" />
-                    </Button>
-                  </div>
-                </div>
-              ))}
+                ))
+              ) : (
+                tasks.map(renderTask)
+              )}
               
-              {/* Show More Tasks placeholder */}
-              <Button
-                variant="outline"
-                className="w-full py-3 border-dashed"
-                onClick={() => {
-                  toast({
-                    title: "Load More",
-                    description: "Pagination will be implemented in a future version.",
-                  });
-                }}
-              >
-                <Plus className="w-4 h-4 mr-2" />
-                Load more tasks
-              </Button>
+              {hasNextPage && !isSearching && (
+                <Button
+                  variant="outline"
+                  className="w-full py-3 border-dashed"
+                  onClick={() => fetchNextPage()}
+                  disabled={isFetchingNextPage}
+                >
+                  <Plus className="w-4 h-4 mr-2" />
+                  {isFetchingNextPage ? "Loading..." : "Load more tasks"}
+                </Button>
+              )}
             </div>
           )}
         </CardContent>
       </Card>
+
+      <TaskEditDialog
+        task={editingTask}
+        onOpenChange={(open) => {
+          if (!open) setEditingTask(null);
+        }}
+      />
     </div>
   );
 }
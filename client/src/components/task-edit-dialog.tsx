@@ -0,0 +1,278 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { z } from "zod";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Calendar } from "@/components/ui/calendar";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { CalendarIcon, Cloud, X } from "lucide-react";
+import { apiRequest, ApiError } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { invalidateUnlessLive } from "@/hooks/use-realtime-updates";
+import { cn } from "@/lib/utils";
+import { insertTaskSchema, type List, type Task } from "@shared/schema";
+
+const taskFormSchema = insertTaskSchema.pick({
+  title: true,
+  description: true,
+  priority: true,
+  dueDate: true,
+  listId: true,
+});
+
+type TaskFormValues = z.infer<typeof taskFormSchema>;
+
+// Select items need string values; "none" stands for a task without a list
+const NO_LIST = "none";
+
+interface TaskEditDialogProps {
+  task: Task | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function TaskEditDialog({ task, onOpenChange }: TaskEditDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: lists = [] } = useQuery<List[]>({
+    queryKey: ["/api/lists"],
+  });
+
+  const form = useForm<TaskFormValues>({
+    resolver: zodResolver(taskFormSchema),
+    defaultValues: {
+      title: "",
+      description: "",
+      priority: "normal",
+      dueDate: null,
+      listId: null,
+    },
+  });
+
+  // Load the selected task into the form each time the dialog opens
+  useEffect(() => {
+    if (task) {
+      form.reset({
+        title: task.title,
+        description: task.description ?? "",
+        priority: task.priority ?? "normal",
+        dueDate: task.dueDate ? new Date(task.dueDate) : null,
+        listId: task.listId,
+      });
+    }
+  }, [task, form]);
+
+  const updateTaskMutation = useMutation({
+    mutationFn: async (values: TaskFormValues) => {
+      const response = await apiRequest("PATCH", `/api/tasks/${task!.id}`, values);
+      return response.json();
+    },
+    onSuccess: (updated: Task) => {
+      invalidateUnlessLive(queryClient);
+      toast({
+        title: "Task Updated",
+        description: updated.microsoftId
+          ? `"${updated.title}" was saved and synced to Microsoft To Do.`
+          : `"${updated.title}" was saved.`,
+      });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      // Show server-side validation errors next to the fields they belong to
+      if (error instanceof ApiError) {
+        const fieldNames = Object.keys(taskFormSchema.shape) as (keyof TaskFormValues)[];
+        const fieldErrors = fieldNames.filter(name => error.errors[name]);
+        fieldErrors.forEach(name => form.setError(name, { message: error.errors[name][0] }));
+        if (fieldErrors.length > 0) return;
+      }
+
+      toast({
+        title: "Error",
+        description: error instanceof ApiError ? error.serverMessage : error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={task !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Edit Task</DialogTitle>
+          <DialogDescription className="flex items-center">
+            {task?.microsoftId ? (
+              <>
+                <Cloud className="w-4 h-4 mr-1" />
+                Changes sync to Microsoft To Do.
+              </>
+            ) : (
+              "Changes are saved to this task only."
+            )}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(values => updateTaskMutation.mutate(values))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="title"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Title</FormLabel>
+                  <FormControl>
+                    <Input {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Textarea rows={3} {...field} value={field.value ?? ""} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="priority"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Priority</FormLabel>
+                    <Select value={field.value ?? "normal"} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="low">Low</SelectItem>
+                        <SelectItem value="normal">Normal</SelectItem>
+                        <SelectItem value="medium">Medium</SelectItem>
+                        <SelectItem value="high">High</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="listId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>List</FormLabel>
+                    <Select
+                      value={field.value ? String(field.value) : NO_LIST}
+                      onValueChange={value => field.onChange(value === NO_LIST ? null : Number(value))}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={NO_LIST}>No list</SelectItem>
+                        {lists.map(list => (
+                          <SelectItem key={list.id} value={String(list.id)}>
+                            {list.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="dueDate"
+              render={({ field }) => (
+                <FormItem className="flex flex-col">
+                  <FormLabel>Due date</FormLabel>
+                  <div className="flex items-center space-x-2">
+                    <Popover>
+                      <PopoverTrigger asChild>
+                        <FormControl>
+                          <Button
+                            variant="outline"
+                            className={cn("flex-1 justify-start font-normal", !field.value && "text-muted-foreground")}
+                          >
+                            <CalendarIcon className="w-4 h-4 mr-2" />
+                            {field.value ? format(field.value, "PPP") : "No due date"}
+                          </Button>
+                        </FormControl>
+                      </PopoverTrigger>
+                      <PopoverContent className="w-auto p-0" align="start">
+                        <Calendar
+                          mode="single"
+                          selected={field.value ?? undefined}
+                          onSelect={date => field.onChange(date ?? null)}
+                          initialFocus
+                        />
+                      </PopoverContent>
+                    </Popover>
+                    {field.value && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => field.onChange(null)}
+                        aria-label="Clear due date"
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={updateTaskMutation.isPending}>
+                {updateTaskMutation.isPending ? "Saving..." : "Save"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,52 +1,202 @@
 import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
-import { Mic, MicOff, Brain, Trash2, HelpCircle } from "lucide-react";
-import { speechRecognition, type SpeechRecognitionResult } from "@/lib/speech";
+import { Mic, MicOff, Brain, Trash2, HelpCircle, X } from "lucide-react";
+import { format } from "date-fns";
+import { speechRecognition, speak, type SpeechRecognitionResult } from "@/lib/speech";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, ApiError } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { invalidateUnlessLive } from "@/hooks/use-realtime-updates";
+import { VoicePlanCard } from "@/components/voice-plan-card";
+import type { VoiceClarification, VoiceClarificationBody, VoiceCommandResponse, VoicePlan, VoicePlanAction } from "@shared/schema";
+
+// One line per action when a command did several things, so the toast shows everything that happened
+export function VoiceCommandSummary({ data }: { data: VoiceCommandResponse }) {
+  if (data.actions.length < 2) {
+    return <>{data.response}</>;
+  }
+
+  return (
+    <div className="space-y-1">
+      <p>{data.response}</p>
+      <ul className="list-disc pl-4">
+        {data.actions.map((action, index) => (
+          <li key={index} className={action.status === "applied" || action.status === "answered" ? undefined : "opacity-80"}>
+            {action.message}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+// The tasks a command might have meant, numbered so "the second one" can be said instead of clicked
+export function ClarificationPicker({
+  clarification,
+  disabled,
+  onPick,
+  onCancel,
+}: {
+  clarification: VoiceClarification;
+  disabled: boolean;
+  onPick: (taskId: number) => void;
+  onCancel: () => void;
+}) {
+  return (
+    <div className="rounded-lg border border-blue-200 dark:border-blue-800 bg-blue-50 dark:bg-blue-950 p-4 text-left space-y-3">
+      <div className="flex items-start justify-between">
+        <p className="text-sm font-medium text-gray-900 dark:text-white">{clarification.question}</p>
+        <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={onCancel} disabled={disabled}>
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+      <div className="space-y-2">
+        {clarification.candidates.map((candidate, index) => (
+          <Button
+            key={candidate.taskId}
+            variant="outline"
+            className="w-full justify-start h-auto py-2 text-left"
+            onClick={() => onPick(candidate.taskId)}
+            disabled={disabled}
+          >
+            <span className="mr-2 text-gray-500 dark:text-gray-400">{index + 1}.</span>
+            <span className="flex-1">
+              <span className={candidate.completed ? "line-through" : undefined}>{candidate.title}</span>
+              {(candidate.listName || candidate.dueDate) && (
+                <span className="block text-xs text-gray-500 dark:text-gray-400">
+                  {[candidate.listName, candidate.dueDate && `Due ${format(new Date(candidate.dueDate), "MMM d")}`]
+                    .filter(Boolean)
+                    .join(" · ")}
+                </span>
+              )}
+            </span>
+          </Button>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400">Pick one, or say "the second one".</p>
+    </div>
+  );
+}
 
 export function VoiceInput() {
   const [isRecording, setIsRecording] = useState(false);
   const [transcript, setTranscript] = useState("");
   const [isProcessing, setIsProcessing] = useState(false);
   const [status, setStatus] = useState("Ready to listen...");
+  const [clarification, setClarification] = useState<VoiceClarification | null>(null);
+  const [plan, setPlan] = useState<VoicePlan | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
+  const handleCommandResult = (data: VoiceCommandResponse) => {
+    setIsProcessing(false);
+    queryClient.invalidateQueries({ queryKey: ["/api/voice-commands"] });
+
+    // Nothing has changed yet; the plan waits for the user to check it and apply it
+    if (data.plan) {
+      setPlan(data.plan);
+      setClarification(null);
+      setStatus("Waiting for confirmation...");
+      return;
+    }
+    setPlan(null);
+
+    // Nothing has changed yet; the command finishes once the user says which task they meant
+    if (data.clarification) {
+      setClarification(data.clarification);
+      setStatus("Waiting for your answer...");
+      speak(data.clarification.question);
+      return;
+    }
+
+    setClarification(null);
+    invalidateUnlessLive(queryClient);
+    queryClient.invalidateQueries({ queryKey: ["/api/checklist-items"] });
+
+    // Questions get their answer read out as well as shown
+    const answered = data.success && data.actions.some(action => action.status === "answered");
+    if (answered) {
+      speak(data.response);
+    }
+
+    toast({
+      title: !data.success ? "Voice Command Not Applied" : answered ? "Voice Command Answered" : "Voice Command Processed",
+      description: <VoiceCommandSummary data={data} />,
+      variant: data.success ? "default" : "destructive",
+    });
+  };
+
+  const handleCommandError = (error: Error) => {
+    setIsProcessing(false);
+    queryClient.invalidateQueries({ queryKey: ["/api/voice-commands"] });
+    // 409: the question or plan expired, or was already answered elsewhere
+    if (error instanceof ApiError && error.status === 409) {
+      setClarification(null);
+      setPlan(null);
+    }
+    toast({
+      title: "Error",
+      description: error instanceof ApiError ? error.serverMessage : "Failed to process voice command",
+      variant: "destructive",
+    });
+  };
+
   const voiceCommandMutation = useMutation({
     mutationFn: async (transcription: string) => {
       const response = await apiRequest("POST", "/api/voice-command", { transcription });
-      return response.json();
+      return (await response.json()) as VoiceCommandResponse;
     },
-    onSuccess: (data) => {
-      setIsProcessing(false);
-      queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/activities"] });
-      
-      toast({
-        title: "Voice Command Processed",
-        description: data.response,
-      });
+    onSuccess: handleCommandResult,
+    onError: handleCommandError,
+  });
+
+  const clarifyMutation = useMutation({
+    mutationFn: async (answer: VoiceClarificationBody) => {
+      const response = await apiRequest("POST", "/api/voice-command/clarify", answer);
+      return (await response.json()) as VoiceCommandResponse;
     },
-    onError: (error) => {
-      setIsProcessing(false);
-      toast({
-        title: "Error",
-        description: "Failed to process voice command",
-        variant: "destructive",
-      });
+    onSuccess: handleCommandResult,
+    onError: handleCommandError,
+  });
+
+  const confirmPlanMutation = useMutation({
+    mutationFn: async (actions: Omit<VoicePlanAction, "candidates">[]) => {
+      const response = await apiRequest("POST", "/api/voice-command/confirm", { actions });
+      return (await response.json()) as VoiceCommandResponse;
     },
+    onSuccess: handleCommandResult,
+    onError: handleCommandError,
   });
 
+  const cancelPlanMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", "/api/voice-command/plan");
+    },
+    onSettled: () => {
+      setPlan(null);
+      setStatus("Ready to listen...");
+      queryClient.invalidateQueries({ queryKey: ["/api/voice-commands"] });
+    },
+  });
+
+  const answerClarification = (answer: VoiceClarificationBody) => {
+    setIsProcessing(true);
+    clarifyMutation.mutate(answer);
+  };
+
   const handleSpeechResult = (result: SpeechRecognitionResult) => {
     setTranscript(result.transcript);
     
     if (result.isFinal && result.transcript.trim()) {
       setIsProcessing(true);
       setStatus("AI is processing your request...");
-      voiceCommandMutation.mutate(result.transcript);
+      // While a question is open, what's said next is the answer to it
+      if (clarification) {
+        clarifyMutation.mutate({ answer: result.transcript });
+      } else {
+        voiceCommandMutation.mutate(result.transcript);
+      }
       stopRecording();
     }
   };
@@ -183,6 +333,28 @@ export function VoiceInput() {
                 </p>
               </div>
               
+              {plan && (
+                <VoicePlanCard
+                  key={JSON.stringify(plan)}
+                  plan={plan}
+                  disabled={isProcessing || cancelPlanMutation.isPending}
+                  onConfirm={(actions) => {
+                    setIsProcessing(true);
+                    confirmPlanMutation.mutate(actions);
+                  }}
+                  onCancel={() => cancelPlanMutation.mutate()}
+                />
+              )}
+              
+              {clarification && (
+                <ClarificationPicker
+                  clarification={clarification}
+                  disabled={isProcessing}
+                  onPick={(taskId) => answerClarification({ taskId })}
+                  onCancel={() => answerClarification({ cancel: true })}
+                />
+              )}
+              
               {/* AI Processing Status */}
               {isProcessing && (
                 <div className="flex items-center justify-center space-x-2 text-sm text-gray-600 dark:text-gray-400">
@@ -204,7 +376,12 @@ export function VoiceInput() {
                     • "Add [task description]" - Create new task
                     • "Update [task] to [new description]" - Modify task
                     • "Make [task] high priority" - Set priority
-                    • "Mark [task] as done" - Complete task`,
+                    • "Mark [task] as done" - Complete task
+                    • "Reopen [task]" - Mark a completed task as not done
+                    • "Reschedule [task] to [day]" - Change the due date
+                    • "Move [task] to [list]" - Move to another list
+                    • "Delete [task]" - Remove a task
+                    • "What's due tomorrow?" - Ask about your tasks`,
                   });
                 }}
               >
@@ -259,6 +436,27 @@ export function VoiceInput() {
                 <div className="text-gray-600 dark:text-gray-400">"Mark [task] as done"</div>
               </div>
             </div>
+            <div className="flex items-start space-x-2">
+              <div className="w-2 h-2 bg-purple-500 rounded-full mt-2" />
+              <div>
+                <div className="font-medium text-gray-900 dark:text-gray-300">Reschedule or Move</div>
+                <div className="text-gray-600 dark:text-gray-400">"Reschedule [task] to Friday" / "Move [task] to [list]"</div>
+              </div>
+            </div>
+            <div className="flex items-start space-x-2">
+              <div className="w-2 h-2 bg-red-500 rounded-full mt-2" />
+              <div>
+                <div className="font-medium text-gray-900 dark:text-gray-300">Delete Task</div>
+                <div className="text-gray-600 dark:text-gray-400">"Delete [task]"</div>
+              </div>
+            </div>
+            <div className="flex items-start space-x-2">
+              <div className="w-2 h-2 bg-gray-500 rounded-full mt-2" />
+              <div>
+                <div className="font-medium text-gray-900 dark:text-gray-300">Ask About Tasks</div>
+                <div className="text-gray-600 dark:text-gray-400">"What's due tomorrow?" / "What are my high priority tasks?"</div>
+              </div>
+            </div>
           </div>
         </CardContent>
       </Card>
@@ -0,0 +1,215 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { CalendarIcon, Check, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import type { VoicePlan, VoicePlanAction, VoicePlanTaskData } from "@shared/schema";
+
+const INTENT_LABELS: Record<string, string> = {
+  add_task: "Add task",
+  update_task: "Update task",
+  complete_task: "Complete task",
+  reopen_task: "Reopen task",
+  delete_task: "Delete task",
+  set_priority: "Set priority",
+  set_due_date: "Reschedule",
+  move_to_list: "Move to list",
+  add_checklist_item: "Add step",
+  query_tasks: "Look up tasks",
+  unknown: "Not understood",
+};
+
+// Which fields of a planned action can be edited before confirming
+const EDITABLE_FIELDS: Record<string, (keyof VoicePlanTaskData)[]> = {
+  add_task: ["title", "priority", "dueDate", "listName"],
+  update_task: ["priority", "dueDate"],
+  set_priority: ["priority"],
+  set_due_date: ["dueDate"],
+  move_to_list: ["listName"],
+  add_checklist_item: ["checklistItem"],
+};
+
+function targetsExistingTask(intent: string): boolean {
+  return intent !== "add_task" && intent !== "query_tasks" && intent !== "unknown";
+}
+
+function PlanActionEditor({
+  action,
+  disabled,
+  onChange,
+}: {
+  action: VoicePlanAction;
+  disabled: boolean;
+  onChange: (action: VoicePlanAction) => void;
+}) {
+  const fields = EDITABLE_FIELDS[action.intent] ?? [];
+  const taskData = action.taskData ?? {};
+  const setField = (patch: VoicePlanTaskData) => onChange({ ...action, taskData: { ...taskData, ...patch } });
+  const dueDate = taskData.dueDate ? new Date(taskData.dueDate) : undefined;
+
+  return (
+    <div className="space-y-2 rounded-md border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-3">
+      <div className="text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400">
+        {INTENT_LABELS[action.intent] ?? action.intent}
+      </div>
+
+      {targetsExistingTask(action.intent) && (
+        <div className="space-y-1">
+          <Label className="text-xs">Task</Label>
+          {action.candidates.length > 0 ? (
+            <Select
+              value={action.taskId ? String(action.taskId) : undefined}
+              onValueChange={value => onChange({ ...action, taskId: Number(value) })}
+              disabled={disabled}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a task" />
+              </SelectTrigger>
+              <SelectContent>
+                {action.candidates.map(candidate => (
+                  <SelectItem key={candidate.taskId} value={String(candidate.taskId)}>
+                    {candidate.title}
+                    {candidate.listName ? ` (${candidate.listName})` : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ) : (
+            <p className="text-sm text-gray-700 dark:text-gray-300">"{taskData.title}"</p>
+          )}
+        </div>
+      )}
+
+      {fields.includes("title") && (
+        <div className="space-y-1">
+          <Label className="text-xs">Title</Label>
+          <Input value={taskData.title ?? ""} onChange={event => setField({ title: event.target.value })} disabled={disabled} />
+        </div>
+      )}
+
+      {fields.includes("checklistItem") && (
+        <div className="space-y-1">
+          <Label className="text-xs">Step</Label>
+          <Input
+            value={taskData.checklistItem ?? ""}
+            onChange={event => setField({ checklistItem: event.target.value })}
+            disabled={disabled}
+          />
+        </div>
+      )}
+
+      {(fields.includes("priority") || fields.includes("dueDate")) && (
+        <div className="grid grid-cols-2 gap-2">
+          {fields.includes("priority") && (
+            <div className="space-y-1">
+              <Label className="text-xs">Priority</Label>
+              <Select
+                value={taskData.priority ?? "normal"}
+                onValueChange={value => setField({ priority: value as VoicePlanTaskData["priority"] })}
+                disabled={disabled}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="low">Low</SelectItem>
+                  <SelectItem value="normal">Normal</SelectItem>
+                  <SelectItem value="medium">Medium</SelectItem>
+                  <SelectItem value="high">High</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          {fields.includes("dueDate") && (
+            <div className="space-y-1">
+              <Label className="text-xs">Due date</Label>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button
+                    variant="outline"
+                    className={cn("w-full justify-start font-normal", !dueDate && "text-muted-foreground")}
+                    disabled={disabled}
+                  >
+                    <CalendarIcon className="w-4 h-4 mr-2" />
+                    {dueDate ? format(dueDate, "MMM d") : "None"}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="start">
+                  <Calendar
+                    mode="single"
+                    selected={dueDate}
+                    onSelect={date => setField({ dueDate: date?.toISOString() })}
+                    initialFocus
+                  />
+                </PopoverContent>
+              </Popover>
+            </div>
+          )}
+        </div>
+      )}
+
+      {fields.includes("listName") && (
+        <div className="space-y-1">
+          <Label className="text-xs">List</Label>
+          <Input
+            value={taskData.listName ?? ""}
+            placeholder="No list"
+            onChange={event => setField({ listName: event.target.value || undefined })}
+            disabled={disabled}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+// A voice command held back for confirmation; the user can correct it before anything is applied
+export function VoicePlanCard({
+  plan,
+  disabled,
+  onConfirm,
+  onCancel,
+}: {
+  plan: VoicePlan;
+  disabled: boolean;
+  onConfirm: (actions: Omit<VoicePlanAction, "candidates">[]) => void;
+  onCancel: () => void;
+}) {
+  const [actions, setActions] = useState(plan.actions);
+  const missingTarget = actions.some(action => action.candidates.length > 0 && !action.taskId);
+
+  return (
+    <div className="rounded-lg border border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-950 p-4 text-left space-y-3">
+      <p className="text-sm font-medium text-gray-900 dark:text-white">{plan.reason}</p>
+      <div className="space-y-2">
+        {actions.map((action, index) => (
+          <PlanActionEditor
+            key={index}
+            action={action}
+            disabled={disabled}
+            onChange={updated => setActions(current => current.map((item, i) => (i === index ? updated : item)))}
+          />
+        ))}
+      </div>
+      <div className="flex space-x-2">
+        <Button
+          className="flex-1"
+          onClick={() => onConfirm(actions.map(({ candidates, ...action }) => action))}
+          disabled={disabled || missingTarget}
+        >
+          <Check className="w-4 h-4 mr-2" />
+          Apply
+        </Button>
+        <Button variant="outline" className="flex-1" onClick={onCancel} disabled={disabled}>
+          <X className="w-4 h-4 mr-2" />
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+import { createContext, useContext, type ReactNode } from "react";
+import { useQuery, useMutation, useQueryClient, type UseMutationResult } from "@tanstack/react-query";
+import { apiRequest, getQueryFn } from "@/lib/queryClient";
+import type { PublicUser } from "@shared/schema";
+
+type Credentials = { username: string; password: string };
+
+interface AuthContextValue {
+  user: PublicUser | null;
+  isLoading: boolean;
+  loginMutation: UseMutationResult<PublicUser, Error, Credentials>;
+  registerMutation: UseMutationResult<PublicUser, Error, Credentials>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const queryClient = useQueryClient();
+
+  // A 401 here means "signed out", not an error; ProtectedRoute sends the visitor to /auth
+  const { data: user = null, isLoading } = useQuery<PublicUser | null>({
+    queryKey: ["/api/user"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  // Whatever was cached belonged to the previous account
+  const switchUser = (next: PublicUser | null) => {
+    queryClient.removeQueries({ predicate: query => query.queryKey[0] !== "/api/user" });
+    queryClient.setQueryData(["/api/user"], next);
+  };
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: Credentials) => {
+      const response = await apiRequest("POST", "/api/login", credentials);
+      return (await response.json()) as PublicUser;
+    },
+    onSuccess: switchUser,
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: async (credentials: Credentials) => {
+      const response = await apiRequest("POST", "/api/register", credentials);
+      return (await response.json()) as PublicUser;
+    },
+    onSuccess: switchUser,
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/logout");
+    },
+    onSuccess: () => switchUser(null),
+  });
+
+  return (
+    <AuthContext.Provider value={{ user, isLoading, loginMutation, registerMutation, logoutMutation }}>
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
@@ -0,0 +1,13 @@
+import * as React from "react"
+
+// Returns value once it has stopped changing for delayMs
+export function useDebounce<T>(value: T, delayMs = 300): T {
+  const [debounced, setDebounced] = React.useState(value)
+
+  React.useEffect(() => {
+    const timeout = setTimeout(() => setDebounced(value), delayMs)
+    return () => clearTimeout(timeout)
+  }, [value, delayMs])
+
+  return debounced
+}
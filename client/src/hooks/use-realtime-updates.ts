@@ -0,0 +1,78 @@
+import * as React from "react"
+import { useQueryClient, type QueryClient, type QueryKey } from "@tanstack/react-query"
+import { applyRealtimeEvent } from "@/lib/task-cache"
+import { REALTIME_PATH, type RealtimeEvent } from "@shared/realtime"
+
+const RECONNECT_DELAYS_MS = [1000, 2000, 5000, 10000]
+
+// Caches kept current by realtime events
+const LIVE_QUERY_KEYS: QueryKey[] = [
+  ["/api/tasks"],
+  ["/api/activities"],
+  ["/api/priority-insights"],
+  ["/api/tags"],
+  ["/api/task-tags"],
+]
+
+let connected = false
+
+// Mutations call this for caches the server's events will patch; it only refetches while the socket is down
+export function invalidateUnlessLive(queryClient: QueryClient, queryKeys: QueryKey[] = LIVE_QUERY_KEYS) {
+  if (connected) return
+  queryKeys.forEach(queryKey => queryClient.invalidateQueries({ queryKey }))
+}
+
+// Keeps one WebSocket open to the server while signed in and patches React Query caches from its events.
+// The server picks the user from the session cookie; userId only reconnects the socket when it changes.
+export function useRealtimeUpdates(userId: number | null) {
+  const queryClient = useQueryClient()
+
+  React.useEffect(() => {
+    if (userId === null) return
+
+    let socket: WebSocket | null = null
+    let retryTimer: ReturnType<typeof setTimeout> | undefined
+    let attempts = 0
+    let stopped = false
+
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:"
+      socket = new WebSocket(`${protocol}//${window.location.host}${REALTIME_PATH}`)
+
+      socket.onopen = () => {
+        // Events sent while disconnected are gone; refetch once to catch up
+        if (attempts > 0) {
+          LIVE_QUERY_KEYS.forEach(queryKey => queryClient.invalidateQueries({ queryKey }))
+        }
+        attempts = 0
+        connected = true
+      }
+
+      socket.onmessage = message => {
+        try {
+          applyRealtimeEvent(queryClient, JSON.parse(message.data) as RealtimeEvent)
+        } catch (error) {
+          console.warn("Ignoring malformed realtime event:", error)
+        }
+      }
+
+      socket.onclose = () => {
+        connected = false
+        if (stopped) return
+
+        const delay = RECONNECT_DELAYS_MS[Math.min(attempts, RECONNECT_DELAYS_MS.length - 1)]
+        attempts++
+        retryTimer = setTimeout(connect, delay)
+      }
+    }
+
+    connect()
+
+    return () => {
+      stopped = true
+      connected = false
+      clearTimeout(retryTimer)
+      socket?.close()
+    }
+  }, [queryClient, userId])
+}
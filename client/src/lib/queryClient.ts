@@ -1,9 +1,34 @@
-import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import { QueryCache, MutationCache, QueryClient, QueryFunction } from "@tanstack/react-query";
+
+// Field errors come from the server's request validation, keyed by field path ("title", "ids.2")
+export class ApiError extends Error {
+  constructor(
+    public status: number,
+    public serverMessage: string,
+    public errors: Record<string, string[]> = {},
+  ) {
+    super(`${status}: ${serverMessage}`);
+    this.name = "ApiError";
+  }
+}
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
-    throw new Error(`${res.status}: ${text}`);
+    let message = text;
+    let errors: Record<string, string[]> | undefined;
+
+    try {
+      const body = JSON.parse(text);
+      if (typeof body?.message === "string") {
+        message = body.message;
+        errors = body.errors;
+      }
+    } catch {
+      // Not JSON; keep the raw text
+    }
+
+    throw new ApiError(res.status, message, errors);
   }
 }
 
@@ -41,7 +66,16 @@ export const getQueryFn: <T>(options: {
     return await res.json();
   };
 
+// An expired session makes any request 401; clearing the user sends ProtectedRoute to the login page
+function signOutOn401(error: Error) {
+  if (error instanceof ApiError && error.status === 401) {
+    queryClient.setQueryData(["/api/user"], null);
+  }
+}
+
 export const queryClient = new QueryClient({
+  queryCache: new QueryCache({ onError: signOutOn401 }),
+  mutationCache: new MutationCache({ onError: signOutOn401 }),
   defaultOptions: {
     queries: {
       queryFn: getQueryFn({ on401: "throw" }),
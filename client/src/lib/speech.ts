@@ -90,3 +90,13 @@ class SpeechRecognitionService {
 }
 
 export const speechRecognition = new SpeechRecognitionService();
+
+// Reads an answer aloud where the browser can; the text is shown on screen either way
+export function speak(text: string): void {
+  if (typeof window === 'undefined' || !('speechSynthesis' in window)) return;
+
+  window.speechSynthesis.cancel();
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.lang = 'en-US';
+  window.speechSynthesis.speak(utterance);
+}
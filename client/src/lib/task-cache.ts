@@ -0,0 +1,154 @@
+import type { InfiniteData, QueryClient, QueryKey } from "@tanstack/react-query";
+import { taskSortValues, compareSortValues } from "@shared/task-sort";
+import type { RealtimeEvent } from "@shared/realtime";
+import type { Activity, List, Tag, Task, TaskPage, TaskSearchResult, TaskSort, TaskTag } from "@shared/schema";
+
+// Second key segment of the paged task queries in TaskDisplay: ["/api/tasks", filter]
+export interface TaskListFilter {
+  sort: TaskSort;
+  listId: number | null;
+  tag: string | null;
+}
+
+// Matches the server's default page for GET /api/activities
+const ACTIVITY_FEED_LIMIT = 10;
+
+const isTaskListKey = (key: QueryKey) =>
+  key[0] === "/api/tasks" && typeof key[1] === "object" && key[1] !== null;
+
+const isSearchKey = (key: QueryKey) => key[0] === "/api/tasks" && key[1] === "search";
+
+function hasTag(queryClient: QueryClient, taskId: number, tagName: string): boolean {
+  const tags = queryClient.getQueryData<Tag[]>(["/api/tags"]) ?? [];
+  const links = queryClient.getQueryData<TaskTag[]>(["/api/task-tags"]) ?? [];
+  const tag = tags.find(t => t.name.toLowerCase() === tagName.toLowerCase());
+  return !!tag && links.some(link => link.taskId === taskId && link.tagId === tag.id);
+}
+
+function matchesFilter(queryClient: QueryClient, task: Task, filter: TaskListFilter): boolean {
+  return (filter.listId === null || task.listId === filter.listId) &&
+    (!filter.tag || hasTag(queryClient, task.id, filter.tag));
+}
+
+// Drops the task from the loaded pages, then re-inserts it where the server's keyset order puts it.
+// A task sorting past the last loaded one is left for "Load more" unless every page is loaded.
+function placeTask(
+  queryClient: QueryClient,
+  data: InfiniteData<TaskPage>,
+  filter: TaskListFilter,
+  taskId: number,
+  task: Task | null,
+): InfiniteData<TaskPage> {
+  const pages = data.pages.map(page => ({ ...page, tasks: page.tasks.filter(t => t.id !== taskId) }));
+
+  if (task && matchesFilter(queryClient, task, filter)) {
+    const lists = queryClient.getQueryData<List[]>(["/api/lists"]) ?? [];
+    const listOrder = (listId: number | null) => lists.find(list => list.id === listId)?.sortOrder ?? null;
+    const orders = taskSortValues[filter.sort];
+    const valuesOf = (t: Task) => orders.map(order => order.value(t, listOrder(t.listId)));
+    const values = valuesOf(task);
+
+    const placed = pages.some(page => {
+      const index = page.tasks.findIndex(other => compareSortValues(orders, values, valuesOf(other)) < 0);
+      if (index === -1) return false;
+      page.tasks.splice(index, 0, task);
+      return true;
+    });
+
+    const lastPage = pages[pages.length - 1];
+    if (!placed && lastPage && lastPage.nextCursor === null) {
+      lastPage.tasks.push(task);
+    }
+  }
+
+  return { ...data, pages };
+}
+
+// Applies a created, updated (task) or deleted (null) task to every cached task page and search result
+function applyTask(queryClient: QueryClient, taskId: number, task: Task | null) {
+  queryClient.getQueriesData<InfiniteData<TaskPage>>({ queryKey: ["/api/tasks"], predicate: query => isTaskListKey(query.queryKey) })
+    .forEach(([key, data]) => {
+      if (data) {
+        queryClient.setQueryData(key, placeTask(queryClient, data, key[1] as TaskListFilter, taskId, task));
+      }
+    });
+
+  // Search ranks come from the server, so new tasks only show up on the next search
+  queryClient.setQueriesData<TaskSearchResult[]>({ queryKey: ["/api/tasks"], predicate: query => isSearchKey(query.queryKey) }, results =>
+    results && (task
+      ? results.map(result => (result.task.id === taskId ? { ...result, task } : result))
+      : results.filter(result => result.task.id !== taskId)));
+}
+
+function findCachedTask(queryClient: QueryClient, taskId: number): Task | undefined {
+  for (const [, data] of queryClient.getQueriesData<InfiniteData<TaskPage>>({ queryKey: ["/api/tasks"], predicate: query => isTaskListKey(query.queryKey) })) {
+    const task = data?.pages.flatMap(page => page.tasks).find(t => t.id === taskId);
+    if (task) return task;
+  }
+  return undefined;
+}
+
+function applyTaskTags(queryClient: QueryClient, taskId: number, tags: Tag[]) {
+  queryClient.setQueryData<Tag[]>(["/api/tags"], existing => existing && [
+    ...existing,
+    ...tags.filter(tag => !existing.some(t => t.id === tag.id)),
+  ].sort((a, b) => a.name.localeCompare(b.name)));
+
+  queryClient.setQueryData<TaskTag[]>(["/api/task-tags"], links => links && [
+    ...links.filter(link => link.taskId !== taskId),
+    ...tags.map(tag => ({ taskId, tagId: tag.id })),
+  ]);
+
+  // The task may now enter or leave a tag-filtered view
+  const task = findCachedTask(queryClient, taskId);
+  queryClient.getQueriesData<InfiniteData<TaskPage>>({ queryKey: ["/api/tasks"], predicate: query => isTaskListKey(query.queryKey) })
+    .forEach(([key, data]) => {
+      const filter = key[1] as TaskListFilter;
+      if (!data || !filter.tag) return;
+
+      if (task) {
+        queryClient.setQueryData(key, placeTask(queryClient, data, filter, taskId, task));
+      } else if (tags.some(tag => tag.name.toLowerCase() === filter.tag!.toLowerCase())) {
+        // Not loaded anywhere, so there is nothing to insert; fetch the view again
+        queryClient.invalidateQueries({ queryKey: key, exact: true });
+      }
+    });
+}
+
+export function applyRealtimeEvent(queryClient: QueryClient, event: RealtimeEvent) {
+  switch (event.type) {
+    case "task_created":
+    case "task_updated":
+      applyTask(queryClient, event.task.id, event.task);
+      break;
+
+    case "task_deleted":
+      applyTask(queryClient, event.taskId, null);
+      // Mirror the server's cascade
+      queryClient.setQueryData<TaskTag[]>(["/api/task-tags"], links => links?.filter(link => link.taskId !== event.taskId));
+      break;
+
+    case "task_tags_updated":
+      applyTaskTags(queryClient, event.taskId, event.tags);
+      break;
+
+    case "activity_created":
+      queryClient.setQueryData<Activity[]>(["/api/activities"], activities =>
+        activities && [event.activity, ...activities.filter(a => a.id !== event.activity.id)].slice(0, ACTIVITY_FEED_LIMIT));
+      break;
+
+    case "priority_insights":
+      queryClient.setQueryData(["/api/priority-insights"], event.insights);
+      break;
+
+    case "open_task_counts":
+      queryClient.setQueryData(["/api/tasks", "counts"], event.counts);
+      break;
+
+    case "sync_completed":
+      // Synced tasks arrive as task events; lists and steps it touched do not
+      queryClient.invalidateQueries({ queryKey: ["/api/lists"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/checklist-items"] });
+      break;
+  }
+}
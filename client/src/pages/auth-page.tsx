@@ -0,0 +1,136 @@
+import { useForm, type UseFormReturn } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Redirect } from "wouter";
+import { z } from "zod";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Mic } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { ApiError } from "@/lib/queryClient";
+import { insertUserSchema, loginBodySchema } from "@shared/schema";
+
+type Credentials = z.infer<typeof loginBodySchema>;
+
+// Field errors from the server go next to their field; anything else goes under the password
+function showServerError(form: UseFormReturn<Credentials>, error: Error) {
+  if (error instanceof ApiError) {
+    const fields = (["username", "password"] as const).filter(name => error.errors[name]);
+    fields.forEach(name => form.setError(name, { message: error.errors[name][0] }));
+    if (fields.length === 0) {
+      form.setError("password", { message: error.serverMessage });
+    }
+    return;
+  }
+  form.setError("password", { message: error.message });
+}
+
+function CredentialsForm({
+  form,
+  submitLabel,
+  pending,
+  onSubmit,
+  passwordAutoComplete,
+}: {
+  form: UseFormReturn<Credentials>;
+  submitLabel: string;
+  pending: boolean;
+  onSubmit: (values: Credentials) => void;
+  passwordAutoComplete: string;
+}) {
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="username"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Username</FormLabel>
+              <FormControl>
+                <Input autoComplete="username" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="password"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Password</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete={passwordAutoComplete} {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" className="w-full" disabled={pending}>
+          {pending ? "Please wait..." : submitLabel}
+        </Button>
+      </form>
+    </Form>
+  );
+}
+
+export default function AuthPage() {
+  const { user, loginMutation, registerMutation } = useAuth();
+
+  const loginForm = useForm<Credentials>({
+    resolver: zodResolver(loginBodySchema),
+    defaultValues: { username: "", password: "" },
+  });
+
+  const registerForm = useForm<Credentials>({
+    resolver: zodResolver(insertUserSchema),
+    defaultValues: { username: "", password: "" },
+  });
+
+  if (user) {
+    return <Redirect to="/" />;
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900 px-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="mx-auto w-10 h-10 bg-blue-500 rounded-lg flex items-center justify-center mb-2">
+            <Mic className="w-5 h-5 text-white" />
+          </div>
+          <CardTitle>VoiceTask</CardTitle>
+          <CardDescription>Sign in to manage your tasks by voice</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Tabs defaultValue="login">
+            <TabsList className="grid w-full grid-cols-2 mb-4">
+              <TabsTrigger value="login">Sign in</TabsTrigger>
+              <TabsTrigger value="register">Create account</TabsTrigger>
+            </TabsList>
+            <TabsContent value="login">
+              <CredentialsForm
+                form={loginForm}
+                submitLabel="Sign in"
+                pending={loginMutation.isPending}
+                passwordAutoComplete="current-password"
+                onSubmit={values => loginMutation.mutate(values, { onError: error => showServerError(loginForm, error) })}
+              />
+            </TabsContent>
+            <TabsContent value="register">
+              <CredentialsForm
+                form={registerForm}
+                submitLabel="Create account"
+                pending={registerMutation.isPending}
+                passwordAutoComplete="new-password"
+                onSubmit={values => registerMutation.mutate(values, { onError: error => showServerError(registerForm, error) })}
+              />
+            </TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
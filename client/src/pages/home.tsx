@@ -1,79 +1,113 @@
+import { useState } from "react";
+import { Link } from "wouter";
 import { VoiceInput } from "@/components/voice-input";
 import { TaskDisplay } from "@/components/task-display";
 import { ActivityFeed } from "@/components/activity-feed";
 import { SettingsDialog } from "@/components/settings-dialog";
+import { ListSidebar } from "@/components/list-sidebar";
+import { SidebarProvider, SidebarInset, SidebarTrigger } from "@/components/ui/sidebar";
 import { Button } from "@/components/ui/button";
-import { Mic, Moon, Sun } from "lucide-react";
+import { History, LogOut, Mic, Moon, Sun } from "lucide-react";
 import { useTheme } from "@/components/theme-provider";
+import { useAuth } from "@/hooks/use-auth";
 
 export default function Home() {
   const { theme, setTheme } = useTheme();
+  const { user, logoutMutation } = useAuth();
+  const [selectedListId, setSelectedListId] = useState<number | null>(null);
 
   const toggleTheme = () => {
     setTheme(theme === "dark" ? "light" : "dark");
   };
 
   return (
-    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 transition-colors duration-300">
-      {/* Header */}
-      <header className="bg-white dark:bg-gray-800 shadow-sm border-b border-gray-200 dark:border-gray-700">
-        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
-          <div className="flex justify-between items-center h-16">
-            <div className="flex items-center space-x-3">
-              <div className="w-8 h-8 bg-blue-500 rounded-lg flex items-center justify-center">
-                <Mic className="w-4 h-4 text-white" />
+    <SidebarProvider>
+      <ListSidebar selectedListId={selectedListId} onSelectList={setSelectedListId} />
+      <SidebarInset className="min-h-screen bg-gray-50 dark:bg-gray-900 transition-colors duration-300">
+        {/* Header */}
+        <header className="bg-white dark:bg-gray-800 shadow-sm border-b border-gray-200 dark:border-gray-700">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+            <div className="flex justify-between items-center h-16">
+              <div className="flex items-center space-x-3">
+                <SidebarTrigger className="text-gray-600 hover:text-gray-900 dark:text-gray-400 dark:hover:text-white" />
+                <div className="w-8 h-8 bg-blue-500 rounded-lg flex items-center justify-center">
+                  <Mic className="w-4 h-4 text-white" />
+                </div>
+                <div>
+                  <h1 className="text-xl font-bold text-gray-900 dark:text-white">VoiceTask</h1>
+                  <p className="text-xs text-gray-600 dark:text-gray-400">AI-Powered Microsoft To Do</p>
+                </div>
               </div>
-              <div>
-                <h1 className="text-xl font-bold text-gray-900 dark:text-white">VoiceTask</h1>
-                <p className="text-xs text-gray-600 dark:text-gray-400">AI-Powered Microsoft To Do</p>
-              </div>
-            </div>
             
-            {/* Controls */}
-            <div className="flex items-center space-x-4">
-              <div className="flex items-center space-x-2">
-                <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></div>
-                <span className="text-sm text-gray-600 dark:text-gray-400">Connected to Microsoft To Do</span>
-              </div>
+              {/* Controls */}
+              <div className="flex items-center space-x-4">
+                <div className="flex items-center space-x-2">
+                  <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></div>
+                  <span className="text-sm text-gray-600 dark:text-gray-400">Connected to Microsoft To Do</span>
+                </div>
               
-              <SettingsDialog />
+                <Button
+                  asChild
+                  variant="ghost"
+                  size="sm"
+                  title="Voice command history"
+                  className="text-gray-600 hover:text-gray-900 dark:text-gray-400 dark:hover:text-white"
+                >
+                  <Link href="/voice-history">
+                    <History className="w-5 h-5" />
+                  </Link>
+                </Button>
+
+                <SettingsDialog />
               
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={toggleTheme}
-                className="text-gray-600 hover:text-gray-900 dark:text-gray-400 dark:hover:text-white"
-              >
-                {theme === "dark" ? (
-                  <Sun className="w-5 h-5" />
-                ) : (
-                  <Moon className="w-5 h-5" />
-                )}
-              </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={toggleTheme}
+                  className="text-gray-600 hover:text-gray-900 dark:text-gray-400 dark:hover:text-white"
+                >
+                  {theme === "dark" ? (
+                    <Sun className="w-5 h-5" />
+                  ) : (
+                    <Moon className="w-5 h-5" />
+                  )}
+                </Button>
+
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => logoutMutation.mutate()}
+                  disabled={logoutMutation.isPending}
+                  title={user ? `Sign out ${user.username}` : "Sign out"}
+                  className="text-gray-600 hover:text-gray-900 dark:text-gray-400 dark:hover:text-white"
+                >
+                  <LogOut className="w-5 h-5" />
+                </Button>
+              </div>
             </div>
           </div>
-        </div>
-      </header>
+        </header>
 
-      {/* Main Content */}
-      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
-          {/* Voice Input Section */}
-          <div className="lg:col-span-1">
-            <VoiceInput />
-          </div>
+        {/* Main Content */}
+        <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+            {/* Voice Input Section */}
+            <div className="lg:col-span-1">
+              <VoiceInput />
+            </div>
           
-          {/* Tasks Display Section */}
-          <div className="lg:col-span-2">
-            <TaskDisplay />
+            {/* Tasks Display Section */}
+            <div className="lg:col-span-2">
+              <TaskDisplay selectedListId={selectedListId} />
+            </div>
           </div>
-        </div>
         
-        {/* Recent Activity Feed */}
-        <div className="mt-8">
-          <ActivityFeed />
-        </div>
-      </main>
-    </div>
+          {/* Recent Activity Feed */}
+          <div className="mt-8">
+            <ActivityFeed />
+          </div>
+        </main>
+      </SidebarInset>
+    </SidebarProvider>
   );
 }
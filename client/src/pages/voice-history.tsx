@@ -0,0 +1,283 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { ArrowLeft, ChevronDown, ChevronUp, Pencil, RotateCcw } from "lucide-react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { ClarificationPicker, VoiceCommandSummary } from "@/components/voice-input";
+import { VoicePlanCard } from "@/components/voice-plan-card";
+import { apiRequest, ApiError } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { invalidateUnlessLive } from "@/hooks/use-realtime-updates";
+import type {
+  VoiceClarification,
+  VoiceClarificationBody,
+  VoiceCommand,
+  VoiceCommandResponse,
+  VoiceCommandStatus,
+  VoicePlan,
+  VoicePlanAction,
+} from "@shared/schema";
+
+const STATUS_LABELS: Record<VoiceCommandStatus, string> = {
+  applied: "Applied",
+  answered: "Answered",
+  failed: "Failed",
+  needs_clarification: "Asked which task",
+  awaiting_confirmation: "Awaiting confirmation",
+  cancelled: "Cancelled",
+};
+
+const STATUS_VARIANTS: Record<VoiceCommandStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  applied: "default",
+  answered: "default",
+  failed: "destructive",
+  needs_clarification: "outline",
+  awaiting_confirmation: "outline",
+  cancelled: "secondary",
+};
+
+function VoiceCommandEntry({
+  command,
+  disabled,
+  onRerun,
+  onCorrect,
+}: {
+  command: VoiceCommand;
+  disabled: boolean;
+  onRerun: () => void;
+  onCorrect: (transcription: string) => void;
+}) {
+  const [showDetails, setShowDetails] = useState(false);
+  const [correction, setCorrection] = useState<string | null>(null);
+
+  const details = [
+    command.intent,
+    command.confidence !== null && `${command.confidence}% confident`,
+    command.model && (command.model === "rules" ? "rule-based parser" : command.model),
+    command.latencyMs !== null && `${command.latencyMs} ms`,
+    command.rerunOfId !== null && `re-run of #${command.rerunOfId}`,
+  ].filter(Boolean);
+
+  const submitCorrection = () => {
+    if (correction?.trim()) {
+      onCorrect(correction.trim());
+      setCorrection(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-start justify-between gap-4">
+          <div className="min-w-0">
+            <p className="font-medium text-gray-900 dark:text-white">"{command.transcription}"</p>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              #{command.id}
+              {command.createdAt && ` · ${format(new Date(command.createdAt), "MMM d, h:mm a")}`}
+              {details.length > 0 && ` · ${details.join(" · ")}`}
+            </p>
+          </div>
+          {command.status && <Badge variant={STATUS_VARIANTS[command.status]}>{STATUS_LABELS[command.status]}</Badge>}
+        </div>
+
+        {command.result && (
+          <div className="text-sm text-gray-700 dark:text-gray-300">
+            <VoiceCommandSummary data={command.result} />
+          </div>
+        )}
+        {command.error && <p className="text-sm text-red-600 dark:text-red-400">{command.error}</p>}
+
+        {correction !== null ? (
+          <div className="flex space-x-2">
+            <Input
+              value={correction}
+              onChange={event => setCorrection(event.target.value)}
+              onKeyDown={event => event.key === "Enter" && submitCorrection()}
+              autoFocus
+            />
+            <Button onClick={submitCorrection} disabled={disabled || !correction.trim()}>
+              Run
+            </Button>
+            <Button variant="outline" onClick={() => setCorrection(null)}>
+              Cancel
+            </Button>
+          </div>
+        ) : (
+          <div className="flex items-center space-x-2">
+            <Button variant="outline" size="sm" onClick={onRerun} disabled={disabled}>
+              <RotateCcw className="w-4 h-4 mr-2" />
+              Re-run
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setCorrection(command.transcription)} disabled={disabled}>
+              <Pencil className="w-4 h-4 mr-2" />
+              Correct
+            </Button>
+            {(command.aiResponse !== null || command.rawOutput) && (
+              <Button variant="ghost" size="sm" onClick={() => setShowDetails(!showDetails)}>
+                {showDetails ? <ChevronUp className="w-4 h-4 mr-2" /> : <ChevronDown className="w-4 h-4 mr-2" />}
+                Interpretation
+              </Button>
+            )}
+          </div>
+        )}
+
+        {showDetails && (
+          <div className="space-y-2">
+            {command.aiResponse !== null && (
+              <pre className="text-xs bg-gray-100 dark:bg-gray-900 rounded-md p-3 overflow-x-auto">
+                {JSON.stringify(command.aiResponse, null, 2)}
+              </pre>
+            )}
+            {command.rawOutput && (
+              <>
+                <p className="text-xs font-medium text-gray-600 dark:text-gray-400">Model output</p>
+                <pre className="text-xs bg-gray-100 dark:bg-gray-900 rounded-md p-3 overflow-x-auto whitespace-pre-wrap">
+                  {command.rawOutput}
+                </pre>
+              </>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function VoiceHistory() {
+  const [clarification, setClarification] = useState<VoiceClarification | null>(null);
+  const [plan, setPlan] = useState<VoicePlan | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: commands = [], isLoading } = useQuery<VoiceCommand[]>({
+    queryKey: ["/api/voice-commands"],
+  });
+
+  // A re-run can come back as a plan or a question, just like a spoken command
+  const handleCommandResult = (data: VoiceCommandResponse) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/voice-commands"] });
+    setPlan(data.plan ?? null);
+    setClarification(data.plan ? null : data.clarification ?? null);
+    if (data.plan || data.clarification) return;
+
+    invalidateUnlessLive(queryClient);
+    queryClient.invalidateQueries({ queryKey: ["/api/checklist-items"] });
+    toast({
+      title: data.success ? "Voice Command Processed" : "Voice Command Not Applied",
+      description: <VoiceCommandSummary data={data} />,
+      variant: data.success ? "default" : "destructive",
+    });
+  };
+
+  const handleCommandError = (error: Error) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/voice-commands"] });
+    if (error instanceof ApiError && error.status === 409) {
+      setClarification(null);
+      setPlan(null);
+    }
+    toast({
+      title: "Error",
+      description: error instanceof ApiError ? error.serverMessage : "Failed to process voice command",
+      variant: "destructive",
+    });
+  };
+
+  const rerunMutation = useMutation({
+    mutationFn: async ({ id, transcription }: { id: number; transcription?: string }) => {
+      const response = transcription
+        ? await apiRequest("POST", `/api/voice-commands/${id}/correct`, { transcription })
+        : await apiRequest("POST", `/api/voice-commands/${id}/rerun`);
+      return (await response.json()) as VoiceCommandResponse;
+    },
+    onSuccess: handleCommandResult,
+    onError: handleCommandError,
+  });
+
+  const clarifyMutation = useMutation({
+    mutationFn: async (answer: VoiceClarificationBody) => {
+      const response = await apiRequest("POST", "/api/voice-command/clarify", answer);
+      return (await response.json()) as VoiceCommandResponse;
+    },
+    onSuccess: handleCommandResult,
+    onError: handleCommandError,
+  });
+
+  const confirmPlanMutation = useMutation({
+    mutationFn: async (actions: Omit<VoicePlanAction, "candidates">[]) => {
+      const response = await apiRequest("POST", "/api/voice-command/confirm", { actions });
+      return (await response.json()) as VoiceCommandResponse;
+    },
+    onSuccess: handleCommandResult,
+    onError: handleCommandError,
+  });
+
+  const cancelPlanMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", "/api/voice-command/plan");
+    },
+    onSettled: () => {
+      setPlan(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/voice-commands"] });
+    },
+  });
+
+  const busy = rerunMutation.isPending || clarifyMutation.isPending || confirmPlanMutation.isPending || cancelPlanMutation.isPending;
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <header className="bg-white dark:bg-gray-800 shadow-sm border-b border-gray-200 dark:border-gray-700">
+        <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 flex items-center h-16 space-x-3">
+          <Button asChild variant="ghost" size="sm" className="text-gray-600 hover:text-gray-900 dark:text-gray-400 dark:hover:text-white">
+            <Link href="/" title="Back to tasks">
+              <ArrowLeft className="w-5 h-5" />
+            </Link>
+          </Button>
+          <div>
+            <h1 className="text-xl font-bold text-gray-900 dark:text-white">Voice Command History</h1>
+            <p className="text-xs text-gray-600 dark:text-gray-400">How each command was understood and what it did</p>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-4">
+        {plan && (
+          <VoicePlanCard
+            key={JSON.stringify(plan)}
+            plan={plan}
+            disabled={busy}
+            onConfirm={actions => confirmPlanMutation.mutate(actions)}
+            onCancel={() => cancelPlanMutation.mutate()}
+          />
+        )}
+        {clarification && (
+          <ClarificationPicker
+            clarification={clarification}
+            disabled={busy}
+            onPick={taskId => clarifyMutation.mutate({ taskId })}
+            onCancel={() => clarifyMutation.mutate({ cancel: true })}
+          />
+        )}
+
+        {isLoading ? (
+          [1, 2, 3].map(i => <div key={i} className="h-24 bg-gray-200 dark:bg-gray-800 rounded-lg animate-pulse" />)
+        ) : commands.length === 0 ? (
+          <p className="text-center text-gray-500 dark:text-gray-400 py-12">No voice commands yet.</p>
+        ) : (
+          commands.map(command => (
+            <VoiceCommandEntry
+              key={command.id}
+              command={command}
+              disabled={busy}
+              onRerun={() => rerunMutation.mutate({ id: command.id })}
+              onCorrect={transcription => rerunMutation.mutate({ id: command.id, transcription })}
+            />
+          ))
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+import type { Express, RequestHandler } from "express";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { pool, useMemoryStorage } from "./db";
+import { userStorage } from "./storage";
+import { runAsUser } from "./lib/user-context";
+import { validate } from "./lib/validation";
+import { hashPassword, verifyPassword } from "./lib/passwords";
+import { insertUserSchema, loginBodySchema, type PublicUser, type User } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends PublicUser {}
+  }
+}
+
+const SESSION_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+const SESSION_PRUNE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+function toPublicUser({ password: _password, ...user }: User): PublicUser {
+  return user;
+}
+
+function getSessionSecret(): string {
+  if (process.env.SESSION_SECRET) {
+    return process.env.SESSION_SECRET;
+  }
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+  console.warn("SESSION_SECRET is not set; using a development-only secret");
+  return "development-session-secret";
+}
+
+function createSessionStore(): session.Store {
+  if (useMemoryStorage) {
+    const MemoryStore = createMemoryStore(session);
+    return new MemoryStore({ checkPeriod: SESSION_PRUNE_INTERVAL_MS });
+  }
+
+  const PostgresStore = connectPg(session);
+  return new PostgresStore({ pool, createTableIfMissing: true });
+}
+
+// Shared with the WebSocket upgrade in ./lib/realtime, which has no Express pipeline of its own
+export const sessionMiddleware = session({
+  store: createSessionStore(),
+  secret: getSessionSecret(),
+  resave: false,
+  saveUninitialized: false,
+  cookie: {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    maxAge: SESSION_MAX_AGE_MS,
+  },
+});
+
+// API routes past this point see only the signed-in user's data
+export const requireAuth: RequestHandler = (req, res, next) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Sign in to continue" });
+  }
+  runAsUser(req.user.id, next);
+};
+
+export function setupAuth(app: Express) {
+  if (process.env.NODE_ENV === "production") {
+    // Secure cookies behind the hosting proxy's TLS termination
+    app.set("trust proxy", 1);
+  }
+
+  app.use(sessionMiddleware);
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await userStorage.getUserByUsername(username);
+        if (!user || !(await verifyPassword(password, user.password))) {
+          return done(null, false);
+        }
+        return done(null, toPublicUser(user));
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const user = await userStorage.getUser(id);
+      // A deleted account just ends the session
+      done(null, user ? toPublicUser(user) : false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/register", validate({ body: insertUserSchema }), async (req, res, next) => {
+    try {
+      const { username, password } = req.body;
+
+      if (await userStorage.getUserByUsername(username)) {
+        return res.status(409).json({ message: "That username is taken", errors: { username: ["That username is taken"] } });
+      }
+
+      const user = toPublicUser(await userStorage.createUser({ username, password: await hashPassword(password) }));
+      req.login(user, (error) => {
+        if (error) return next(error);
+        res.status(201).json(user);
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create account" });
+    }
+  });
+
+  app.post("/api/login", validate({ body: loginBodySchema }), (req, res, next) => {
+    passport.authenticate("local", (error: unknown, user: Express.User | false) => {
+      if (error) return next(error);
+      if (!user) {
+        return res.status(401).json({ message: "Incorrect username or password" });
+      }
+
+      // Passport regenerates the session ID here, so a session fixed before sign-in can't be reused
+      req.login(user, (loginError) => {
+        if (loginError) return next(loginError);
+        res.json(user);
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((error) => {
+      if (error) return next(error);
+      res.sendStatus(204);
+    });
+  });
+
+  app.get("/api/user", (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not signed in" });
+    }
+    res.json(req.user);
+  });
+}
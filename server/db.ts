@@ -5,11 +5,15 @@ import * as schema from "@shared/schema";
 
 neonConfig.webSocketConstructor = ws;
 
-if (!process.env.DATABASE_URL) {
+// STORAGE=memory runs the server without Postgres (see MemStorage in ./storage)
+export const useMemoryStorage = process.env.STORAGE === "memory";
+
+if (!useMemoryStorage && !process.env.DATABASE_URL) {
   throw new Error(
-    "DATABASE_URL must be set. Did you forget to provision a database?",
+    "DATABASE_URL must be set. Did you forget to provision a database? Set STORAGE=memory to run without one.",
   );
 }
 
+// The pool only connects on first query, so creating it without a URL is harmless in memory mode
 export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
 export const db = drizzle({ client: pool, schema });
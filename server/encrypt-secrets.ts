@@ -0,0 +1,32 @@
+// Encrypts Microsoft credentials stored before encryption at rest, and rewraps values still under an
+// older key after ENCRYPTION_KEYS has been rotated. Safe to run repeatedly; `npm run db:push` runs it last.
+import { eq } from "drizzle-orm";
+import { db, pool } from "./db";
+import { microsoftConfig } from "@shared/schema";
+import { needsRewrap, rewrapSecret } from "./lib/secrets";
+
+const SECRET_COLUMNS = ["clientSecret", "accessToken", "refreshToken"] as const;
+
+(async () => {
+  try {
+    const rows = await db.select().from(microsoftConfig);
+    let updatedRows = 0;
+
+    for (const row of rows) {
+      const updates: Partial<Record<typeof SECRET_COLUMNS[number], string>> = {};
+      SECRET_COLUMNS.forEach(column => {
+        const value = row[column];
+        if (value && needsRewrap(value)) updates[column] = rewrapSecret(value);
+      });
+
+      if (Object.keys(updates).length > 0) {
+        await db.update(microsoftConfig).set(updates).where(eq(microsoftConfig.id, row.id));
+        updatedRows++;
+      }
+    }
+
+    console.log(`Encrypted or rewrapped secrets in ${updatedRows} of ${rows.length} Microsoft config rows`);
+  } finally {
+    await pool.end();
+  }
+})();
@@ -0,0 +1,12 @@
+// Postgres extensions the schema's indexes depend on; drizzle-kit push doesn't create them.
+// Run before `drizzle-kit push` by `npm run db:push`.
+import { pool } from "./db";
+
+(async () => {
+  try {
+    await pool.query("CREATE EXTENSION IF NOT EXISTS pg_trgm");
+    console.log("Postgres extensions ready");
+  } finally {
+    await pool.end();
+  }
+})();
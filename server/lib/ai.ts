@@ -0,0 +1,188 @@
+import { z } from "zod";
+import { completeStructured, completeStructuredReply, getLLMProvider, LLMOutputError } from "./llm";
+import { parseVoiceCommand, CONFIDENT_PARSE } from "./voice-parser";
+import { voiceCommandToolSchema, voiceCommandResultSchema, type VoiceCommandResult } from "./voice-contract";
+import type { VoiceContext } from "./voice-context";
+
+const priorityScoreSchema = z.object({
+  score: z.number().min(0).max(100),
+  reasoning: z.string(),
+});
+
+// How a command was understood, kept with the command so its history shows what the model made of it
+export interface VoiceInterpretation {
+  command: VoiceCommandResult;
+  // "rules" when the rule-based parser understood it without the model
+  model: string;
+  // The model's reply as sent, or null when it wasn't asked or didn't answer
+  rawOutput: string | null;
+}
+
+export const RULES_MODEL = "rules";
+
+// Earlier exchanges in this session, so the model can follow references like "it" or "the other one"
+function describeConversation(context: VoiceContext | null): string {
+  if (!context || context.turns.length === 0) return "This is the start of the conversation.";
+
+  const turns = context.turns.map(turn => `User: ${turn.transcription}\nAssistant: ${turn.response}`).join("\n");
+  const tasks = context.recentTasks.map(task => `"${task.title}"`).join(", ");
+  return `Conversation so far:\n${turns}${tasks ? `\nTasks referred to recently, most recent first: ${tasks}` : ""}`;
+}
+
+export async function processVoiceCommand(
+  transcription: string,
+  listNames: string[] = [],
+  context: VoiceContext | null = null,
+): Promise<VoiceInterpretation> {
+  // Commands the rule-based parser fully understands don't need a round trip to the model
+  const parsed = parseVoiceCommand(transcription, listNames);
+  if (parsed && parsed.actions.every(action => action.confidence >= CONFIDENT_PARSE)) {
+    return { command: parsed, model: RULES_MODEL, rawOutput: null };
+  }
+
+  try {
+    const reply = await completeStructuredReply({
+      tool: {
+        name: "record_voice_command",
+        description: "Record each action the user's voice command asks for, with its task details",
+        parameters: voiceCommandToolSchema,
+      },
+      messages: [
+        {
+          role: "system",
+          content: `You are an AI assistant that processes voice commands for task management. 
+          Analyze the user's voice command and extract the intent and task information.
+          A command can ask for several things ("add milk and mark the report as done, then make
+          dentist high priority"): return one action per request, in the order they were said.
+          
+          Possible intents:
+          - add_task: User wants to create a new task
+          - update_task: User wants to modify an existing task
+          - complete_task: User wants to mark a task as completed
+          - reopen_task: User wants to mark a completed task as not done
+          - delete_task: User wants to remove a task entirely
+          - set_priority: User wants to change task priority
+          - set_due_date: User wants to set or change (reschedule, postpone) a task's due date
+          - move_to_list: User wants to move a task to another list (listName is the destination)
+          - add_checklist_item: User wants to add a step to an existing task
+            ("add a step 'call vendor' to the launch task": title is "launch", checklistItem is "call vendor")
+          - query_tasks: User asks about their tasks without changing anything ("what's due tomorrow?",
+            "what are my high priority tasks?"); fill in query with the filters the question uses.
+            The answer is looked up from their tasks afterwards, so don't make one up in response.
+          - unknown: Command doesn't match any intent
+          
+          Priority levels: low, normal, medium, high
+          
+          Today is ${new Date().toDateString()}. Give due dates as ISO 8601 dates ("2024-05-17").
+          
+          The user's task lists are: ${listNames.length > 0 ? listNames.join(", ") : "(none yet)"}
+          If the command names a list ("add milk to Groceries"), set listName to that list,
+          using the existing list's spelling when it matches one.
+          
+          If the command says the task repeats, set recurrence to one of:
+            {"type": "daily", "interval": 1}  ("every day"; interval 2 for "every other day")
+            {"type": "weekly", "interval": 1, "daysOfWeek": ["monday", "thursday"]}  ("every Monday and Thursday")
+            {"type": "monthly", "interval": 1, "dayOfMonth": 22}  ("on the 22nd of every month")
+          Use null for recurrence on one-off tasks.
+          
+          Words marked with @ or # ("@work", "#errand"), or phrases like "tag it home", are tags:
+          put them in tags without the @ or # and leave them out of the title.
+          
+          ${describeConversation(context)}
+          When the command points back at a task with "it", "that" or "that one" rather than naming it,
+          set title to that word exactly ("it"); the task it means is looked up from the conversation.
+          To change several things about one task at once ("make it high priority for Friday"), use a
+          single update_task action with each changed field.
+          
+          Respond in JSON format with:
+          {
+            "response": "friendly confirmation message covering every action",
+            "actions": [
+              {
+                "intent": "intent_name",
+                "confidence": 0.0-1.0,
+                "taskData": {
+                  "title": "extracted task title",
+                  "description": "extracted description",
+                  "priority": "extracted priority",
+                  "dueDate": "ISO 8601 date if mentioned",
+                  "completed": boolean if completion status mentioned,
+                  "listName": "target list name if mentioned",
+                  "checklistItem": "step to add, for add_checklist_item",
+                  "recurrence": "repeat rule as above, if the task repeats",
+                  "tags": ["tag names, if any"]
+                },
+                "query": {
+                  "status": "open, completed or all; null means open",
+                  "priority": "priority asked about",
+                  "listName": "list asked about",
+                  "tag": "tag asked about",
+                  "dueFrom": "ISO 8601 start of the due-date range asked about",
+                  "dueTo": "ISO 8601 end of that range; a plain date includes the whole day"
+                }
+              }
+            ]
+          }
+          Use null for any taskData or query field the command doesn't mention, and null for query
+          on anything but query_tasks.`
+        },
+        {
+          role: "user",
+          content: transcription
+        }
+      ],
+    }, voiceCommandResultSchema);
+    return { command: reply.data, model: reply.model, rawOutput: reply.content };
+  } catch (error) {
+    console.error("Voice command processing error:", error);
+    if (parsed) {
+      return { command: parsed, model: RULES_MODEL, rawOutput: null };
+    }
+    // Nothing was written; the route turns this into an error instead of acting on a bad answer
+    if (error instanceof LLMOutputError) {
+      throw error;
+    }
+    return {
+      command: {
+        response: "Sorry, I had trouble processing your command. Please try again.",
+        actions: [{ intent: "unknown", confidence: 0 }],
+      },
+      model: getLLMProvider().model,
+      rawOutput: null,
+    };
+  }
+}
+
+export async function generateTaskPriority(taskTitle: string, taskDescription?: string): Promise<number> {
+  try {
+    const result = await completeStructured({
+      json: true,
+      messages: [
+        {
+          role: "system",
+          content: `You are an AI task prioritization expert. Analyze the given task and provide a priority score from 0-100.
+          
+          Consider:
+          - Urgency indicators (deadlines, time-sensitive words)
+          - Importance (work vs personal, impact level)
+          - Complexity (simple vs complex tasks)
+          - Dependencies (blocks other work)
+          
+          Respond in JSON format:
+          {
+            "score": 0-100,
+            "reasoning": "brief explanation"
+          }`
+        },
+        {
+          role: "user",
+          content: `Task: ${taskTitle}${taskDescription ? `\nDescription: ${taskDescription}` : ""}`
+        }
+      ],
+    }, priorityScoreSchema);
+    return result.score;
+  } catch (error) {
+    console.error("Priority generation error:", error);
+    return 50; // Default medium priority
+  }
+}
@@ -0,0 +1,230 @@
+// Chat-completion providers behind one interface, picked per environment:
+//
+// LLM_PROVIDER     "openai" (default), "local" for an OpenAI-compatible server (Ollama, llama.cpp),
+//                  or "stub" to replay scripted responses offline
+// LLM_MODEL        defaults to "gpt-4o" for openai and "llama3.1" for local
+// LLM_BASE_URL     local server's /v1 endpoint, default http://localhost:11434/v1 (Ollama)
+// LLM_API_KEY      falls back to OPENAI_API_KEY / OPENAI_KEY
+// LLM_TEMPERATURE  default 0.1
+// LLM_TIMEOUT_MS   default 30000
+// LLM_MAX_ATTEMPTS structured answers that fail validation are sent back for repair this many times in total, default 3
+// LLM_TOOL_CALLING "true" to use tool calling with a local server; the OpenAI provider always does
+// LLM_STUB_RESPONSES  JSON file with an array of responses for the stub, used in order
+import OpenAI from "openai";
+import { zodFunction } from "openai/helpers/zod";
+import { readFileSync } from "fs";
+import type { z } from "zod";
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+// A function the model must call; its arguments are the structured answer
+export interface ChatTool {
+  name: string;
+  description: string;
+  parameters: z.ZodObject<z.ZodRawShape>;
+}
+
+export interface ChatRequest {
+  messages: ChatMessage[];
+  // Ask for a single JSON object back
+  json?: boolean;
+  // Providers that support it answer through this tool; others fall back to JSON mode
+  tool?: ChatTool;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  complete(request: ChatRequest): Promise<string>;
+}
+
+export interface OpenAIProviderOptions {
+  name: string;
+  model: string;
+  apiKey: string;
+  baseURL?: string;
+  temperature: number;
+  timeoutMs: number;
+  toolCalling: boolean;
+}
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  private client: OpenAI;
+  private temperature: number;
+  private toolCalling: boolean;
+
+  constructor(options: OpenAIProviderOptions) {
+    this.name = options.name;
+    this.model = options.model;
+    this.temperature = options.temperature;
+    this.toolCalling = options.toolCalling;
+    this.client = new OpenAI({
+      apiKey: options.apiKey,
+      baseURL: options.baseURL,
+      timeout: options.timeoutMs,
+      maxRetries: 1,
+    });
+  }
+
+  async complete({ messages, json, tool }: ChatRequest): Promise<string> {
+    if (tool && this.toolCalling) {
+      const response = await this.client.chat.completions.create({
+        model: this.model,
+        messages,
+        tools: [zodFunction({ name: tool.name, description: tool.description, parameters: tool.parameters })],
+        tool_choice: { type: "function", function: { name: tool.name } },
+        temperature: this.temperature,
+      });
+      const message = response.choices[0]?.message;
+      const call = message?.tool_calls?.find(toolCall => toolCall.type === "function");
+      return call?.type === "function" ? call.function.arguments : message?.content || "";
+    }
+
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      messages,
+      response_format: json || tool ? { type: "json_object" } : undefined,
+      temperature: this.temperature,
+    });
+    return response.choices[0]?.message.content || "";
+  }
+}
+
+export type ScriptedResponse = string | object | ((request: ChatRequest) => string | object);
+
+// Replays canned responses in order and keeps every request it was sent, so tests and CI run without a model
+export class ScriptedProvider implements LLMProvider {
+  readonly name = "stub";
+  readonly model = "scripted";
+  readonly requests: ChatRequest[] = [];
+
+  constructor(private script: ScriptedResponse[]) {}
+
+  async complete(request: ChatRequest): Promise<string> {
+    this.requests.push(request);
+    const next = this.script.shift();
+    if (next === undefined) {
+      throw new Error("Scripted LLM provider has no responses left");
+    }
+    const response = typeof next === "function" ? next(request) : next;
+    return typeof response === "string" ? response : JSON.stringify(response);
+  }
+}
+
+function numberFromEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) ? value : fallback;
+}
+
+function createProviderFromEnv(): LLMProvider {
+  const provider = process.env.LLM_PROVIDER || "openai";
+  const temperature = numberFromEnv("LLM_TEMPERATURE", 0.1);
+  const timeoutMs = numberFromEnv("LLM_TIMEOUT_MS", 30 * 1000);
+  const apiKey = process.env.LLM_API_KEY || process.env.OPENAI_API_KEY || process.env.OPENAI_KEY || "";
+
+  switch (provider) {
+    case "openai":
+      // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
+      return new OpenAIProvider({ name: "openai", model: process.env.LLM_MODEL || "gpt-4o", apiKey, temperature, timeoutMs, toolCalling: true });
+    case "local":
+      return new OpenAIProvider({
+        name: "local",
+        model: process.env.LLM_MODEL || "llama3.1",
+        // Local servers ignore the key, but the client insists on one
+        apiKey: apiKey || "local",
+        baseURL: process.env.LLM_BASE_URL || "http://localhost:11434/v1",
+        temperature,
+        timeoutMs,
+        toolCalling: process.env.LLM_TOOL_CALLING === "true",
+      });
+    case "stub": {
+      const file = process.env.LLM_STUB_RESPONSES;
+      const script: ScriptedResponse[] = file ? JSON.parse(readFileSync(file, "utf8")) : [];
+      return new ScriptedProvider(script);
+    }
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${provider}"; expected openai, local or stub`);
+  }
+}
+
+let activeProvider: LLMProvider | undefined;
+
+export function getLLMProvider(): LLMProvider {
+  if (!activeProvider) {
+    activeProvider = createProviderFromEnv();
+  }
+  return activeProvider;
+}
+
+// Swaps the provider at runtime, e.g. a ScriptedProvider in a test
+export function setLLMProvider(provider: LLMProvider) {
+  activeProvider = provider;
+}
+
+export class LLMOutputError extends Error {
+  constructor(message: string, readonly problems: string[], readonly lastReply: string) {
+    super(message);
+    this.name = "LLMOutputError";
+  }
+}
+
+function describeProblems(content: string, schema: z.ZodTypeAny): { data?: unknown; problems: string[] } {
+  let value: unknown;
+  try {
+    value = JSON.parse(content);
+  } catch {
+    return { problems: ["The reply was not valid JSON"] };
+  }
+
+  const result = schema.safeParse(value);
+  if (result.success) return { data: result.data, problems: [] };
+  return {
+    problems: result.error.issues.map(issue => `${issue.path.length > 0 ? issue.path.join(".") : "(root)"}: ${issue.message}`),
+  };
+}
+
+export interface StructuredReply<T> {
+  data: T;
+  // The reply that passed validation, exactly as the model sent it
+  content: string;
+  model: string;
+}
+
+// Asks for a structured answer and validates it against `schema`. Invalid answers go back to the model with
+// what was wrong; after LLM_MAX_ATTEMPTS tries the answer is rejected rather than passed on.
+export async function completeStructuredReply<S extends z.ZodTypeAny>(request: ChatRequest, schema: S): Promise<StructuredReply<z.output<S>>> {
+  const provider = getLLMProvider();
+  const maxAttempts = Math.max(1, numberFromEnv("LLM_MAX_ATTEMPTS", 3));
+  const messages = request.messages.slice();
+  let problems: string[] = [];
+  let content = "";
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    content = await provider.complete({ ...request, messages: messages.slice(), json: true });
+    const checked = describeProblems(content, schema);
+    if (checked.problems.length === 0) {
+      return { data: checked.data as z.output<S>, content, model: provider.model };
+    }
+
+    problems = checked.problems;
+    console.warn(`LLM reply failed validation (attempt ${attempt} of ${maxAttempts}):`, problems.join("; "));
+    messages.push(
+      { role: "assistant", content },
+      {
+        role: "user",
+        content: `That reply doesn't match the required format:\n- ${problems.join("\n- ")}\nReply again with the corrected JSON only.`,
+      },
+    );
+  }
+
+  throw new LLMOutputError(`The model's reply was still invalid after ${maxAttempts} attempts`, problems, content);
+}
+
+export async function completeStructured<S extends z.ZodTypeAny>(request: ChatRequest, schema: S): Promise<z.output<S>> {
+  return (await completeStructuredReply(request, schema)).data;
+}
@@ -1,142 +1,492 @@
 // Microsoft Graph API integration for To Do
+import { weekdays, type ChecklistItem, type InsertChecklistItem, type InsertTask, type List, type RecurrenceRule, type Task, type Weekday } from "@shared/schema";
+import { graphFetch, MicrosoftAuthError } from "./microsoft-token";
+import { currentUserId } from "./user-context";
+
+const GRAPH_BASE_URL = "https://graph.microsoft.com/v1.0";
+
+// ID of each user's built-in "Tasks" list, refreshed by every sync so creating a task doesn't fetch the lists;
+// forgotten when the user's Microsoft tokens are replaced or cleared
+const defaultListIds = new Map<number, string>();
+
 interface MicrosoftTask {
   id: string;
   title: string;
   body?: {
     content: string;
+    contentType?: "text" | "html";
   };
   importance: "low" | "normal" | "high";
-  status: "notStarted" | "inProgress" | "completed";
+  status: "notStarted" | "inProgress" | "completed" | "waitingOnOthers" | "deferred";
   dueDateTime?: {
     dateTime: string;
     timeZone: string;
+  } | null;
+  recurrence?: MicrosoftRecurrence | null;
+  categories?: string[];
+  lastModifiedDateTime?: string;
+  // Present on delta results for tasks deleted remotely
+  "@removed"?: { reason: string };
+}
+
+// Graph patternedRecurrence, as used by todoTask.recurrence
+interface MicrosoftRecurrence {
+  pattern: {
+    type: "daily" | "weekly" | "absoluteMonthly" | "relativeMonthly" | "absoluteYearly" | "relativeYearly";
+    interval: number;
+    daysOfWeek?: Weekday[];
+    dayOfMonth?: number;
+    firstDayOfWeek?: Weekday;
   };
+  range: {
+    type: "noEnd" | "endDate" | "numbered";
+    startDate?: string;
+  };
+}
+
+interface MicrosoftChecklistItem {
+  id: string;
+  displayName: string;
+  isChecked: boolean;
 }
 
+export interface MicrosoftTaskList {
+  id: string;
+  displayName: string;
+  wellknownListName?: string;
+}
+
+// Local checklist fields that round-trip with Graph checklistItems
+type SyncedChecklistFields = Pick<InsertChecklistItem, "title" | "completed">;
+
 interface SyncResult {
   syncedCount: number;
+  lists?: number;
+  created?: number;
+  updated?: number;
+  deleted?: number;
   error?: string;
 }
 
-export async function syncWithMicrosoftTodo(): Promise<SyncResult> {
-  try {
-    // Get the access token from the database instead of environment variables
-    const { db } = await import("../db");
-    const { microsoftConfig, tasks } = await import("@shared/schema");
-    const { isNotNull } = await import("drizzle-orm");
-    const { storage } = await import("../storage");
-    
-    const [config] = await db.select().from(microsoftConfig).limit(1);
-    
-    if (!config || !config.accessToken) {
+// Local fields that round-trip with Microsoft To Do; tag names map to Graph categories
+type SyncedTaskFields = Pick<InsertTask, "title" | "description" | "priority" | "dueDate" | "completed" | "recurrence"> & {
+  tags?: string[];
+};
+
+export async function getTaskLists(): Promise<MicrosoftTaskList[]> {
+  const listsResponse = await graphFetch(`${GRAPH_BASE_URL}/me/todo/lists`);
+
+  if (!listsResponse.ok) {
+    if (listsResponse.status === 401) {
+      throw new MicrosoftAuthError("Authentication expired. Please re-authenticate in Settings.");
+    }
+    throw new Error(`Graph API error: ${listsResponse.status} ${listsResponse.statusText}`);
+  }
+
+  const listsData = await listsResponse.json();
+  return listsData.value || [];
+}
+
+// Lists chosen in Settings; every list when nothing has been chosen yet
+async function getSyncedTaskLists(): Promise<MicrosoftTaskList[]> {
+  const { storage } = await import("../storage");
+  const [taskLists, config] = await Promise.all([getTaskLists(), storage.getMicrosoftConfig()]);
+  rememberDefaultList(taskLists);
+
+  if (!config?.syncListIds) {
+    return taskLists;
+  }
+  return taskLists.filter(list => config.syncListIds!.includes(list.id));
+}
+
+// Local list mirroring a Graph list: linked by ID, or adopted by name, or created
+async function linkLocalList(msList: MicrosoftTaskList): Promise<List> {
+  const { storage } = await import("../storage");
+
+  const linked = await storage.getListByMicrosoftId(msList.id);
+  if (linked) {
+    if (linked.name === msList.displayName) return linked;
+    return (await storage.updateList(linked.id, { name: msList.displayName })) ?? linked;
+  }
+
+  const sameName = await storage.getListByName(msList.displayName);
+  if (sameName && !sameName.microsoftListId) {
+    return (await storage.updateList(sameName.id, { microsoftListId: msList.id })) ?? sameName;
+  }
+
+  return storage.createList({
+    // Two Graph lists can share a name; local names are unique
+    name: sameName ? `${msList.displayName} (Microsoft)` : msList.displayName,
+    microsoftListId: msList.id,
+  });
+}
+
+function rememberDefaultList(taskLists: MicrosoftTaskList[]) {
+  const defaultList = taskLists.find(list => list.wellknownListName === "defaultList") || taskLists[0];
+  if (defaultList) {
+    defaultListIds.set(currentUserId(), defaultList.id);
+  } else {
+    defaultListIds.delete(currentUserId());
+  }
+}
+
+// A default list ID belongs to the connected account; call whenever its tokens are replaced or cleared
+export function forgetDefaultList() {
+  defaultListIds.delete(currentUserId());
+}
+
+// Only asks Graph when no sync has run since the server started
+async function getDefaultListId(): Promise<string | null> {
+  if (!defaultListIds.has(currentUserId())) {
+    rememberDefaultList(await getTaskLists());
+  }
+  return defaultListIds.get(currentUserId()) ?? null;
+}
+
+// Tasks synced before lists were tracked have no list ID; they live in the built-in "Tasks" list
+async function resolveTaskListId(task: Task): Promise<string | null> {
+  return task.microsoftListId || getDefaultListId();
+}
+
+// Graph returns dueDateTime without an offset; the offset lives in timeZone
+function parseGraphDate(value: MicrosoftTask["dueDateTime"]): Date | null {
+  if (!value?.dateTime) return null;
+  const isUtc = value.timeZone === "UTC" && !/[zZ]|[+-]\d\d:\d\d$/.test(value.dateTime);
+  return new Date(isUtc ? `${value.dateTime}Z` : value.dateTime);
+}
+
+function fromMicrosoftRecurrence(recurrence: MicrosoftRecurrence | null | undefined): RecurrenceRule | null {
+  if (!recurrence?.pattern) return null;
+
+  const { pattern } = recurrence;
+  const interval = Math.max(1, pattern.interval || 1);
+
+  switch (pattern.type) {
+    case "daily":
+      return { type: "daily", interval };
+    case "weekly": {
+      const daysOfWeek = (pattern.daysOfWeek || []).filter(day => weekdays.includes(day));
+      return daysOfWeek.length > 0 ? { type: "weekly", interval, daysOfWeek } : { type: "daily", interval: 7 * interval };
+    }
+    case "absoluteMonthly":
+      return { type: "monthly", interval, dayOfMonth: pattern.dayOfMonth };
+    // "The second Tuesday" has no local equivalent; keep the monthly cadence
+    case "relativeMonthly":
+      return { type: "monthly", interval };
+    case "absoluteYearly":
+      return { type: "monthly", interval: 12 * interval, dayOfMonth: pattern.dayOfMonth };
+    case "relativeYearly":
+      return { type: "monthly", interval: 12 * interval };
+    default:
+      return null;
+  }
+}
+
+function toMicrosoftRecurrence(rule: RecurrenceRule, startDate: Date): MicrosoftRecurrence {
+  const range = { type: "noEnd" as const, startDate: startDate.toISOString().slice(0, 10) };
+
+  switch (rule.type) {
+    case "daily":
+      return { pattern: { type: "daily", interval: rule.interval }, range };
+    case "weekly":
+      return { pattern: { type: "weekly", interval: rule.interval, daysOfWeek: rule.daysOfWeek, firstDayOfWeek: "sunday" }, range };
+    case "monthly":
       return {
-        syncedCount: 0,
-        error: "Microsoft access token not configured. Please authenticate in Settings."
+        pattern: { type: "absoluteMonthly", interval: rule.interval, dayOfMonth: rule.dayOfMonth ?? startDate.getUTCDate() },
+        range,
       };
+  }
+}
+
+function fromMicrosoftTask(msTask: MicrosoftTask): SyncedTaskFields {
+  return {
+    title: msTask.title,
+    description: msTask.body?.content || '',
+    priority: msTask.importance === 'high' ? 'high' :
+              msTask.importance === 'low' ? 'low' : 'normal',
+    dueDate: parseGraphDate(msTask.dueDateTime),
+    completed: msTask.status === 'completed',
+    recurrence: fromMicrosoftRecurrence(msTask.recurrence),
+    tags: msTask.categories || [],
+  };
+}
+
+function toMicrosoftTask(changes: Partial<SyncedTaskFields>): Record<string, unknown> {
+  const body: Record<string, unknown> = {};
+
+  if (changes.title !== undefined) {
+    body.title = changes.title;
+  }
+  if (changes.description !== undefined) {
+    body.body = { content: changes.description || '', contentType: "text" };
+  }
+  if (changes.priority !== undefined) {
+    // Graph has no "medium"; it rounds down to normal
+    body.importance = changes.priority === 'high' ? 'high' :
+                      changes.priority === 'low' ? 'low' : 'normal';
+  }
+  if (changes.dueDate !== undefined) {
+    body.dueDateTime = changes.dueDate
+      ? { dateTime: new Date(changes.dueDate).toISOString().replace('Z', ''), timeZone: "UTC" }
+      : null;
+  }
+  if (changes.completed !== undefined) {
+    body.status = changes.completed ? "completed" : "notStarted";
+  }
+  if (changes.recurrence !== undefined) {
+    body.recurrence = changes.recurrence
+      ? toMicrosoftRecurrence(changes.recurrence, changes.dueDate ? new Date(changes.dueDate) : new Date())
+      : null;
+  }
+  if (changes.tags !== undefined) {
+    body.categories = changes.tags;
+  }
+
+  return body;
+}
+
+// Tag names compared the way local tags are unique: ignoring case and order
+export function sameTagNames(a: string[], b: string[]): boolean {
+  const normalize = (names: string[]) => names.map(name => name.toLowerCase()).sort().join("\n");
+  return normalize(a) === normalize(b);
+}
+
+// Fields that differ between two versions of the same task and need pushing to Graph
+export function getSyncedTaskChanges(before: Task, after: Task): Partial<SyncedTaskFields> {
+  const changes: Partial<SyncedTaskFields> = {};
+
+  if (before.title !== after.title) changes.title = after.title;
+  if ((before.description || '') !== (after.description || '')) changes.description = after.description;
+  if (before.priority !== after.priority) changes.priority = after.priority;
+  if (before.dueDate?.getTime() !== after.dueDate?.getTime()) changes.dueDate = after.dueDate;
+  if (Boolean(before.completed) !== Boolean(after.completed)) changes.completed = after.completed;
+  if (JSON.stringify(before.recurrence ?? null) !== JSON.stringify(after.recurrence ?? null)) {
+    changes.recurrence = after.recurrence;
+    // Graph only accepts a recurrence alongside the due date it starts from
+    changes.dueDate = after.dueDate;
+  }
+
+  return changes;
+}
+
+// Pages through a delta query and returns the changed tasks plus the cursor for the next run.
+// Returns null when Graph has expired the stored cursor and a full resync is needed.
+async function fetchTaskDelta(startLink: string): Promise<{ tasks: MicrosoftTask[]; deltaLink: string | null } | null> {
+  const changedTasks: MicrosoftTask[] = [];
+  let nextLink: string | null = startLink;
+  let deltaLink: string | null = null;
+
+  while (nextLink) {
+    const tasksResponse = await graphFetch(nextLink);
+
+    if (tasksResponse.status === 410) {
+      return null;
+    }
+
+    if (!tasksResponse.ok) {
+      throw new Error(`Tasks API error: ${tasksResponse.status} ${tasksResponse.statusText}`);
+    }
+
+    const tasksData = await tasksResponse.json();
+    changedTasks.push(...(tasksData.value || []));
+
+    nextLink = tasksData['@odata.nextLink'] || null;
+    deltaLink = tasksData['@odata.deltaLink'] || deltaLink;
+  }
+
+  return { tasks: changedTasks, deltaLink };
+}
+
+// Graph has no delta query for checklist items, so a changed task's steps are reconciled in full
+async function syncChecklistItems(task: Task, listId: string) {
+  const { storage } = await import("../storage");
+
+  const response = await graphFetch(`${GRAPH_BASE_URL}/me/todo/lists/${listId}/tasks/${task.microsoftId}/checklistItems`);
+  if (!response.ok) {
+    throw new Error(`Checklist API error: ${response.status} ${response.statusText}`);
+  }
+
+  const remoteItems: MicrosoftChecklistItem[] = (await response.json()).value || [];
+  const localItems = await storage.getChecklistItems(task.id);
+  const remoteIds = new Set(remoteItems.map(item => item.id));
+
+  // Steps created locally but never pushed have no microsoftId; pushLocalChecklistItems sends them afterwards
+  for (const localItem of localItems) {
+    if (localItem.microsoftId && !remoteIds.has(localItem.microsoftId)) {
+      await storage.deleteChecklistItem(localItem.id);
+    }
+  }
+
+  for (let index = 0; index < remoteItems.length; index++) {
+    const remoteItem = remoteItems[index];
+    const existing = localItems.find(item => item.microsoftId === remoteItem.id);
+
+    if (!existing) {
+      await storage.createChecklistItem({
+        taskId: task.id,
+        microsoftId: remoteItem.id,
+        title: remoteItem.displayName,
+        completed: remoteItem.isChecked,
+        sortOrder: index,
+      });
+    } else if (existing.title !== remoteItem.displayName || Boolean(existing.completed) !== remoteItem.isChecked || existing.sortOrder !== index) {
+      await storage.updateChecklistItem(existing.id, {
+        title: remoteItem.displayName,
+        completed: remoteItem.isChecked,
+        sortOrder: index,
+      });
     }
-    
-    // First, get the default task list
-    const listsResponse = await fetch('https://graph.microsoft.com/v1.0/me/todo/lists', {
-      headers: {
-        'Authorization': `Bearer ${config.accessToken}`,
-        'Content-Type': 'application/json'
+  }
+}
+
+async function syncTaskList(list: MicrosoftTaskList) {
+  const { storage } = await import("../storage");
+
+  const initialLink = `${GRAPH_BASE_URL}/me/todo/lists/${list.id}/tasks/delta`;
+  const storedDeltaLink = await storage.getMicrosoftDeltaLink(list.id);
+
+  let delta = await fetchTaskDelta(storedDeltaLink || initialLink);
+  if (!delta && storedDeltaLink) {
+    console.warn(`Delta token expired for list ${list.id}, running a full sync`);
+    delta = await fetchTaskDelta(initialLink);
+  }
+  if (!delta) {
+    throw new Error(`Microsoft To Do rejected the delta query for list "${list.displayName}"`);
+  }
+
+  console.log(`Fetched ${delta.tasks.length} changed tasks from Microsoft To Do list "${list.displayName}"`);
+
+  const localList = await linkLocalList(list);
+
+  let created = 0;
+  let updated = 0;
+  let deleted = 0;
+
+  for (const msTask of delta.tasks) {
+    try {
+      const existing = await storage.getTaskByMicrosoftId(msTask.id);
+
+      if (msTask["@removed"]) {
+        // A task moved to another list shows up as removed here; only delete it if it still belongs to this list
+        if (existing && (!existing.microsoftListId || existing.microsoftListId === list.id) && await storage.deleteTask(existing.id)) {
+          deleted++;
+        }
+        continue;
       }
-    });
-    
-    if (!listsResponse.ok) {
-      if (listsResponse.status === 401) {
-        return {
-          syncedCount: 0,
-          error: "Authentication expired. Please re-authenticate in Settings."
-        };
+
+      const { tags: remoteTags = [], ...fields } = fromMicrosoftTask(msTask);
+
+      if (!existing) {
+        // Don't import a backlog of tasks that were already finished remotely
+        if (fields.completed) continue;
+
+        const task = await storage.createTask({
+          ...fields,
+          microsoftId: msTask.id,
+          microsoftListId: list.id,
+          listId: localList.id,
+        });
+        if (remoteTags.length > 0) {
+          await storage.setTaskTags(task.id, remoteTags);
+        }
+        await syncChecklistItems(task, list.id);
+        created++;
+        continue;
+      }
+
+      const movedList = existing.microsoftListId !== list.id || existing.listId !== localList.id;
+
+      // A newer local edit wins; it has already been pushed back by PATCH /api/tasks/:id
+      const remoteModifiedAt = msTask.lastModifiedDateTime ? new Date(msTask.lastModifiedDateTime) : null;
+      const localIsNewer = remoteModifiedAt && existing.updatedAt && existing.updatedAt > remoteModifiedAt;
+
+      const changes = localIsNewer ? {} : getSyncedTaskChanges(existing, { ...existing, ...fields });
+      const localTags = (await storage.getTagsForTask(existing.id)).map(tag => tag.name);
+      const tagsChanged = !localIsNewer && !sameTagNames(localTags, remoteTags);
+
+      if (Object.keys(changes).length > 0 || movedList) {
+        await storage.updateTask(existing.id, {
+          ...changes,
+          microsoftListId: list.id,
+          listId: localList.id,
+        });
+      }
+      if (tagsChanged) {
+        await storage.setTaskTags(existing.id, remoteTags);
+      }
+      if (Object.keys(changes).length > 0 || movedList || tagsChanged) {
+        updated++;
       }
-      throw new Error(`Graph API error: ${listsResponse.status} ${listsResponse.statusText}`);
+
+      // Checklist edits show up as a task change; a newer local task edit doesn't make its steps newer
+      await syncChecklistItems(existing, list.id);
+    } catch (taskError) {
+      console.error(`Failed to sync task ${msTask.id}:`, taskError);
     }
-    
-    const listsData = await listsResponse.json();
-    const taskLists = listsData.value || [];
-    
+  }
+
+  await storage.saveMicrosoftDeltaLink(list.id, delta.deltaLink);
+
+  return { created, updated, deleted };
+}
+
+// Steps whose push failed when they were added, or that predate their task's link, only exist locally
+async function pushLocalChecklistItems(syncedListIds: Set<string>) {
+  const { storage } = await import("../storage");
+
+  const unpushed = (await storage.getChecklistItems()).filter(item => !item.microsoftId);
+  const taskIds = Array.from(new Set(unpushed.map(item => item.taskId)));
+
+  for (const taskId of taskIds) {
+    const task = await storage.getTask(taskId);
+    if (!task?.microsoftId || (task.microsoftListId && !syncedListIds.has(task.microsoftListId))) continue;
+
+    for (const item of unpushed.filter(item => item.taskId === taskId)) {
+      const microsoftId = await createMicrosoftChecklistItem(task, item);
+      if (microsoftId) {
+        await storage.updateChecklistItem(item.id, { microsoftId });
+      }
+    }
+  }
+}
+
+export async function syncWithMicrosoftTodo(): Promise<SyncResult> {
+  try {
+    const taskLists = await getSyncedTaskLists();
+
     if (taskLists.length === 0) {
       return {
         syncedCount: 0,
         error: "No task lists found in Microsoft To Do"
       };
     }
-    
-    // Use the first list (usually the default "Tasks" list)
-    const defaultList = taskLists[0];
-    
-    // Fetch all tasks with pagination (no filter to get maximum results)
-    let allTasks: any[] = [];
-    let nextLink = `https://graph.microsoft.com/v1.0/me/todo/lists/${defaultList.id}/tasks?$top=100`;
-    
-    while (nextLink) {
-      const tasksResponse = await fetch(nextLink, {
-        headers: {
-          'Authorization': `Bearer ${config.accessToken}`,
-          'Content-Type': 'application/json'
-        }
-      });
-      
-      if (!tasksResponse.ok) {
-        throw new Error(`Tasks API error: ${tasksResponse.status} ${tasksResponse.statusText}`);
-      }
-      
-      const tasksData = await tasksResponse.json();
-      const taskBatch = tasksData.value || [];
-      allTasks.push(...taskBatch);
-      
-      // Check for next page
-      nextLink = tasksData['@odata.nextLink'] || null;
-    }
-    
-    // Filter for uncompleted tasks locally
-    const microsoftTasks = allTasks.filter(task => task.status !== 'completed');
-    
-    console.log(`Successfully fetched ${microsoftTasks.length} uncompleted tasks from Microsoft To Do`);
-    
-    // Clear existing Microsoft tasks from local database before importing
-    await db.delete(tasks).where(isNotNull(tasks.microsoftId));
-    console.log("Cleared existing Microsoft tasks from local database");
-    
-    // Import uncompleted tasks into local database
-    let importedCount = 0;
-    
-    for (const msTask of microsoftTasks) {
-      try {
-        // Convert Microsoft task to our task format
-        const priority = msTask.importance === 'high' ? 'high' : 
-                        msTask.importance === 'low' ? 'low' : 'normal';
-        
-        // All tasks from this sync are uncompleted since we filtered for them
-        const completed = false;
-        
-        let dueDate = null;
-        if (msTask.dueDateTime && msTask.dueDateTime.dateTime) {
-          dueDate = new Date(msTask.dueDateTime.dateTime);
-        }
-        
-        const description = msTask.body?.content || '';
-        
-        await storage.createTask({
-          title: msTask.title,
-          description: description,
-          priority: priority as 'low' | 'normal' | 'medium' | 'high',
-          completed: completed,
-          dueDate: dueDate,
-          microsoftId: msTask.id
-        });
-        
-        importedCount++;
-      } catch (taskError) {
-        console.error(`Failed to import task ${msTask.id}:`, taskError);
-      }
+
+    let created = 0;
+    let updated = 0;
+    let deleted = 0;
+
+    for (const list of taskLists) {
+      const listResult = await syncTaskList(list);
+      created += listResult.created;
+      updated += listResult.updated;
+      deleted += listResult.deleted;
     }
-    
+    await pushLocalChecklistItems(new Set(taskLists.map(list => list.id)));
+
     return {
-      syncedCount: importedCount,
+      syncedCount: created + updated + deleted,
+      lists: taskLists.length,
+      created,
+      updated,
+      deleted,
     };
   } catch (error) {
+    if (error instanceof MicrosoftAuthError) {
+      return {
+        syncedCount: 0,
+        error: error.message
+      };
+    }
     console.error("Microsoft To Do sync error:", error);
     return {
       syncedCount: 0,
@@ -145,133 +495,252 @@ export async function syncWithMicrosoftTodo(): Promise<SyncResult> {
   }
 }
 
-export async function updateMicrosoftTaskStatus(microsoftId: string, completed: boolean): Promise<boolean> {
+export async function updateMicrosoftTask(task: Task, changes: Partial<SyncedTaskFields>): Promise<boolean> {
   try {
-    // Get the access token from the database
-    const { db } = await import("../db");
-    const { microsoftConfig } = await import("@shared/schema");
-    
-    const [config] = await db.select().from(microsoftConfig).limit(1);
-    
-    if (!config || !config.accessToken) {
-      console.warn("Microsoft access token not available for task update");
+    const listId = await resolveTaskListId(task);
+
+    if (!task.microsoftId || !listId) {
+      console.error("No task lists found in Microsoft To Do");
       return false;
     }
 
-    // Get the default task list first
-    const listsResponse = await fetch('https://graph.microsoft.com/v1.0/me/todo/lists', {
-      headers: {
-        'Authorization': `Bearer ${config.accessToken}`,
-        'Content-Type': 'application/json'
-      }
+    const updateResponse = await graphFetch(`${GRAPH_BASE_URL}/me/todo/lists/${listId}/tasks/${task.microsoftId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(toMicrosoftTask(changes))
     });
 
-    if (!listsResponse.ok) {
-      console.error(`Failed to get task lists: ${listsResponse.status}`);
+    if (!updateResponse.ok) {
+      console.error(`Failed to update Microsoft task: ${updateResponse.status}`);
+      return false;
+    }
+
+    console.log(`Successfully updated Microsoft To Do task ${task.microsoftId}: ${Object.keys(changes).join(', ')}`);
+    return true;
+  } catch (error) {
+    if (error instanceof MicrosoftAuthError) {
+      console.warn("Microsoft task update skipped:", error.message);
       return false;
     }
+    console.error("Microsoft task update error:", error);
+    return false;
+  }
+}
 
-    const listsData = await listsResponse.json();
-    const taskLists = listsData.value || [];
+export async function deleteMicrosoftTask(task: Task): Promise<boolean> {
+  try {
+    const listId = await resolveTaskListId(task);
 
-    if (taskLists.length === 0) {
+    if (!task.microsoftId || !listId) {
       console.error("No task lists found in Microsoft To Do");
       return false;
     }
 
-    const defaultList = taskLists[0];
+    const deleteResponse = await graphFetch(`${GRAPH_BASE_URL}/me/todo/lists/${listId}/tasks/${task.microsoftId}`, {
+      method: 'DELETE'
+    });
 
-    // Update the task status
-    const updateData = {
-      status: completed ? "completed" : "notStarted"
-    };
+    // Already gone remotely counts as success
+    if (!deleteResponse.ok && deleteResponse.status !== 404) {
+      console.error(`Failed to delete Microsoft task: ${deleteResponse.status}`);
+      return false;
+    }
+
+    console.log(`Successfully deleted Microsoft To Do task: ${task.microsoftId}`);
+    return true;
+  } catch (error) {
+    if (error instanceof MicrosoftAuthError) {
+      console.warn("Microsoft task deletion skipped:", error.message);
+      return false;
+    }
+    console.error("Microsoft task deletion error:", error);
+    return false;
+  }
+}
 
-    const updateResponse = await fetch(`https://graph.microsoft.com/v1.0/me/todo/lists/${defaultList.id}/tasks/${microsoftId}`, {
+function toMicrosoftChecklistItem(changes: Partial<SyncedChecklistFields>): Record<string, unknown> {
+  const body: Record<string, unknown> = {};
+
+  if (changes.title !== undefined) {
+    body.displayName = changes.title;
+  }
+  if (changes.completed !== undefined) {
+    body.isChecked = Boolean(changes.completed);
+  }
+
+  return body;
+}
+
+export async function createMicrosoftChecklistItem(task: Task, item: ChecklistItem): Promise<string | null> {
+  try {
+    const listId = await resolveTaskListId(task);
+
+    if (!task.microsoftId || !listId) {
+      return null;
+    }
+
+    const createResponse = await graphFetch(`${GRAPH_BASE_URL}/me/todo/lists/${listId}/tasks/${task.microsoftId}/checklistItems`, {
+      method: 'POST',
+      body: JSON.stringify(toMicrosoftChecklistItem(item))
+    });
+
+    if (!createResponse.ok) {
+      console.error(`Failed to create Microsoft checklist item: ${createResponse.status}`);
+      return null;
+    }
+
+    const createdItem = await createResponse.json();
+    return createdItem.id;
+  } catch (error) {
+    if (error instanceof MicrosoftAuthError) {
+      console.warn("Microsoft checklist item creation skipped:", error.message);
+      return null;
+    }
+    console.error("Microsoft checklist item creation error:", error);
+    return null;
+  }
+}
+
+export async function updateMicrosoftChecklistItem(task: Task, item: ChecklistItem, changes: Partial<SyncedChecklistFields>): Promise<boolean> {
+  try {
+    const listId = await resolveTaskListId(task);
+
+    if (!task.microsoftId || !item.microsoftId || !listId) {
+      return false;
+    }
+
+    const updateResponse = await graphFetch(`${GRAPH_BASE_URL}/me/todo/lists/${listId}/tasks/${task.microsoftId}/checklistItems/${item.microsoftId}`, {
       method: 'PATCH',
-      headers: {
-        'Authorization': `Bearer ${config.accessToken}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify(updateData)
+      body: JSON.stringify(toMicrosoftChecklistItem(changes))
     });
 
     if (!updateResponse.ok) {
-      console.error(`Failed to update Microsoft task: ${updateResponse.status}`);
+      console.error(`Failed to update Microsoft checklist item: ${updateResponse.status}`);
       return false;
     }
 
-    console.log(`Successfully updated Microsoft To Do task status: ${microsoftId} -> ${completed ? 'completed' : 'not completed'}`);
     return true;
   } catch (error) {
-    console.error("Microsoft task update error:", error);
+    if (error instanceof MicrosoftAuthError) {
+      console.warn("Microsoft checklist item update skipped:", error.message);
+      return false;
+    }
+    console.error("Microsoft checklist item update error:", error);
     return false;
   }
 }
 
-export async function createMicrosoftTask(title: string, description?: string): Promise<string | null> {
+export async function deleteMicrosoftChecklistItem(task: Task, item: ChecklistItem): Promise<boolean> {
   try {
-    // Get the access token from the database
-    const { db } = await import("../db");
-    const { microsoftConfig } = await import("@shared/schema");
-    
-    const [config] = await db.select().from(microsoftConfig).limit(1);
-    
-    if (!config || !config.accessToken) {
-      console.warn("Microsoft access token not available for task creation");
-      return null;
+    const listId = await resolveTaskListId(task);
+
+    if (!task.microsoftId || !item.microsoftId || !listId) {
+      return false;
     }
-    
-    // Get the default task list first
-    const listsResponse = await fetch('https://graph.microsoft.com/v1.0/me/todo/lists', {
-      headers: {
-        'Authorization': `Bearer ${config.accessToken}`,
-        'Content-Type': 'application/json'
-      }
+
+    const deleteResponse = await graphFetch(`${GRAPH_BASE_URL}/me/todo/lists/${listId}/tasks/${task.microsoftId}/checklistItems/${item.microsoftId}`, {
+      method: 'DELETE'
     });
-    
-    if (!listsResponse.ok) {
-      console.error(`Failed to get task lists: ${listsResponse.status}`);
-      return null;
+
+    // Already gone remotely counts as success
+    if (!deleteResponse.ok && deleteResponse.status !== 404) {
+      console.error(`Failed to delete Microsoft checklist item: ${deleteResponse.status}`);
+      return false;
     }
-    
-    const listsData = await listsResponse.json();
-    const taskLists = listsData.value || [];
-    
-    if (taskLists.length === 0) {
-      console.error("No task lists found in Microsoft To Do");
+
+    return true;
+  } catch (error) {
+    if (error instanceof MicrosoftAuthError) {
+      console.warn("Microsoft checklist item deletion skipped:", error.message);
+      return false;
+    }
+    console.error("Microsoft checklist item deletion error:", error);
+    return false;
+  }
+}
+
+export async function renameMicrosoftTaskList(microsoftListId: string, displayName: string): Promise<boolean> {
+  try {
+    const updateResponse = await graphFetch(`${GRAPH_BASE_URL}/me/todo/lists/${microsoftListId}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ displayName })
+    });
+
+    if (!updateResponse.ok) {
+      console.error(`Failed to rename Microsoft task list: ${updateResponse.status}`);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    if (error instanceof MicrosoftAuthError) {
+      console.warn("Microsoft task list rename skipped:", error.message);
+      return false;
+    }
+    console.error("Microsoft task list rename error:", error);
+    return false;
+  }
+}
+
+// Creates the task in the Graph list linked to its local list (the built-in "Tasks" list when it has none).
+// Returns null when that list isn't synced, so the task stays local-only.
+export async function createMicrosoftTask(task: Task): Promise<{ microsoftId: string; listId: string } | null> {
+  try {
+    const { storage } = await import("../storage");
+
+    // Lists are linked to Graph by sync, so the local list already knows its Graph ID
+    const localList = task.listId ? await storage.getList(task.listId) : undefined;
+    const targetListId = localList ? localList.microsoftListId : await getDefaultListId();
+    const config = await storage.getMicrosoftConfig();
+
+    if (!targetListId || (config?.syncListIds && !config.syncListIds.includes(targetListId))) {
+      console.log(`List of task ${task.id} is not synced with Microsoft To Do, keeping task local`);
       return null;
     }
-    
-    const defaultList = taskLists[0];
-    
-    // Create the task
-    const taskData = {
-      title: title,
-      body: description ? {
-        content: description,
-        contentType: "text"
-      } : undefined
-    };
-    
-    const createResponse = await fetch(`https://graph.microsoft.com/v1.0/me/todo/lists/${defaultList.id}/tasks`, {
+
+    const taskTags = await storage.getTagsForTask(task.id);
+    const body = JSON.stringify(toMicrosoftTask({
+      title: task.title,
+      description: task.description ?? undefined,
+      priority: task.priority,
+      dueDate: task.dueDate ?? undefined,
+      completed: task.completed ?? undefined,
+      recurrence: task.recurrence ?? undefined,
+      tags: taskTags.length > 0 ? taskTags.map(tag => tag.name) : undefined,
+    }));
+    const postTask = (listId: string) => graphFetch(`${GRAPH_BASE_URL}/me/todo/lists/${listId}/tasks`, {
       method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${config.accessToken}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify(taskData)
+      body,
     });
-    
+
+    let listId = targetListId;
+    let createResponse = await postTask(listId);
+
+    // A cached default list that's gone was most likely left behind by a different account; look it up again once
+    if (createResponse.status === 404 && !localList) {
+      forgetDefaultList();
+      const defaultListId = await getDefaultListId();
+      if (!defaultListId || defaultListId === listId || (config?.syncListIds && !config.syncListIds.includes(defaultListId))) {
+        console.log(`Default Microsoft To Do list for task ${task.id} is not available, keeping task local`);
+        return null;
+      }
+      listId = defaultListId;
+      createResponse = await postTask(listId);
+    }
+
     if (!createResponse.ok) {
       console.error(`Failed to create Microsoft task: ${createResponse.status}`);
       return null;
     }
-    
+
     const createdTask = await createResponse.json();
     console.log("Successfully created Microsoft To Do task:", createdTask.id);
-    
-    return createdTask.id;
+
+    return { microsoftId: createdTask.id, listId };
   } catch (error) {
+    if (error instanceof MicrosoftAuthError) {
+      console.warn("Microsoft task creation skipped:", error.message);
+      return null;
+    }
     console.error("Microsoft task creation error:", error);
     return null;
   }
@@ -0,0 +1,82 @@
+// Authorization-code flow for connecting a Microsoft account: state and PKCE are kept in the user's
+// session between POST /api/microsoft-auth and /auth/callback so a callback can't be forged or replayed.
+import type { Request } from "express";
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import { GRAPH_SCOPES } from "./microsoft-token";
+
+// Long enough to pick an account and consent, short enough that a leaked URL goes stale
+const AUTH_REQUEST_MAX_AGE_MS = 10 * 60 * 1000;
+
+export interface MicrosoftAuthRequest {
+  state: string;
+  codeVerifier: string;
+  redirectUri: string;
+  createdAt: number;
+}
+
+declare module "express-session" {
+  interface SessionData {
+    microsoftAuth?: MicrosoftAuthRequest;
+  }
+}
+
+// PUBLIC_BASE_URL (e.g. https://tasks.example.com) wins when set; otherwise the request's own origin,
+// which honours X-Forwarded-Proto in production where "trust proxy" is enabled
+export function getRedirectUri(req: Request): string {
+  const baseUrl = process.env.PUBLIC_BASE_URL?.replace(/\/+$/, "") || `${req.protocol}://${req.get("host")}`;
+  return `${baseUrl}/auth/callback`;
+}
+
+function base64Url(buffer: Buffer): string {
+  return buffer.toString("base64").replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+export function createAuthRequest(req: Request): MicrosoftAuthRequest {
+  const authRequest: MicrosoftAuthRequest = {
+    state: base64Url(randomBytes(32)),
+    codeVerifier: base64Url(randomBytes(32)),
+    redirectUri: getRedirectUri(req),
+    createdAt: Date.now(),
+  };
+  req.session.microsoftAuth = authRequest;
+  return authRequest;
+}
+
+export function buildAuthorizeUrl(tenantId: string, clientId: string, authRequest: MicrosoftAuthRequest): string {
+  const params = new URLSearchParams({
+    client_id: clientId,
+    response_type: "code",
+    redirect_uri: authRequest.redirectUri,
+    scope: GRAPH_SCOPES,
+    response_mode: "query",
+    prompt: "select_account",
+    state: authRequest.state,
+    code_challenge: base64Url(createHash("sha256").update(authRequest.codeVerifier).digest()),
+    code_challenge_method: "S256",
+  });
+  return `https://login.microsoftonline.com/${encodeURIComponent(tenantId)}/oauth2/v2.0/authorize?${params}`;
+}
+
+// Returns the pending request when `state` matches it. The request is removed either way, so each one
+// can complete at most once.
+export function consumeAuthRequest(req: Request, state: string | undefined): MicrosoftAuthRequest | null {
+  const authRequest = req.session.microsoftAuth;
+  delete req.session.microsoftAuth;
+
+  if (!authRequest || !state || Date.now() - authRequest.createdAt > AUTH_REQUEST_MAX_AGE_MS) {
+    return null;
+  }
+
+  const expected = Buffer.from(authRequest.state);
+  const actual = Buffer.from(state);
+  return expected.length === actual.length && timingSafeEqual(expected, actual) ? authRequest : null;
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
@@ -0,0 +1,165 @@
+// Microsoft Graph access-token lifecycle: refresh before expiry, refresh on 401, persist rotated tokens
+import { storage } from "../storage";
+import { currentUserId } from "./user-context";
+
+export const GRAPH_SCOPES = "https://graph.microsoft.com/Tasks.ReadWrite https://graph.microsoft.com/User.Read offline_access";
+
+// Refresh this long before the stored expiry so in-flight calls don't race it
+const EXPIRY_SKEW_MS = 5 * 60 * 1000;
+const MAX_REFRESH_ATTEMPTS = 3;
+
+export class MicrosoftAuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MicrosoftAuthError";
+  }
+}
+
+interface TokenResponse {
+  access_token: string;
+  refresh_token?: string;
+  expires_in?: number;
+  error?: string;
+  error_description?: string;
+}
+
+// Concurrent callers for the same user share one refresh so the refresh token is only redeemed once
+const refreshesInFlight = new Map<number, Promise<string | null>>();
+
+export async function getAccessToken(options: { forceRefresh?: boolean } = {}): Promise<string | null> {
+  const config = await storage.getMicrosoftConfig();
+
+  if (!config?.accessToken) {
+    return null;
+  }
+
+  const expiresSoon = config.tokenExpiresAt
+    ? config.tokenExpiresAt.getTime() - EXPIRY_SKEW_MS <= Date.now()
+    : false;
+
+  if (!options.forceRefresh && !expiresSoon) {
+    return config.accessToken;
+  }
+
+  if (!config.refreshToken) {
+    // Nothing to refresh with; let the caller try the token it has
+    return options.forceRefresh ? null : config.accessToken;
+  }
+
+  const userId = currentUserId();
+  let refresh = refreshesInFlight.get(userId);
+  if (!refresh) {
+    refresh = refreshAccessToken().finally(() => {
+      refreshesInFlight.delete(userId);
+    });
+    refreshesInFlight.set(userId, refresh);
+  }
+  return refresh;
+}
+
+async function refreshAccessToken(): Promise<string | null> {
+  const config = await storage.getMicrosoftConfig();
+
+  if (!config?.refreshToken || !config.clientId || !config.tenantId || !config.clientSecret) {
+    return null;
+  }
+
+  let lastError = "Unknown error";
+
+  for (let attempt = 1; attempt <= MAX_REFRESH_ATTEMPTS; attempt++) {
+    try {
+      const response = await fetch(`https://login.microsoftonline.com/${config.tenantId}/oauth2/v2.0/token`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: new URLSearchParams({
+          client_id: config.clientId,
+          client_secret: config.clientSecret,
+          refresh_token: config.refreshToken,
+          grant_type: 'refresh_token',
+          scope: GRAPH_SCOPES,
+        }),
+      });
+
+      const tokenData: TokenResponse = await response.json();
+
+      if (response.ok) {
+        await storage.saveMicrosoftConfig({
+          accessToken: tokenData.access_token,
+          // Microsoft rotates refresh tokens; keep the old one if a new one wasn't issued
+          refreshToken: tokenData.refresh_token || config.refreshToken,
+          tokenExpiresAt: tokenData.expires_in ? new Date(Date.now() + tokenData.expires_in * 1000) : null,
+        });
+        console.log("Refreshed Microsoft Graph access token");
+        return tokenData.access_token;
+      }
+
+      lastError = tokenData.error_description || tokenData.error || `Token endpoint error: ${response.status}`;
+
+      // 4xx (invalid_grant, revoked consent, bad client secret) won't succeed on retry
+      if (response.status >= 400 && response.status < 500) {
+        await storage.saveMicrosoftConfig({
+          accessToken: "",
+          refreshToken: null,
+          tokenExpiresAt: null,
+        });
+        // Imported lazily: microsoft-graph depends on this module
+        const { forgetDefaultList } = await import("./microsoft-graph");
+        forgetDefaultList();
+        await logRefreshFailure(lastError, true);
+        return null;
+      }
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : "Unknown error";
+    }
+
+    if (attempt < MAX_REFRESH_ATTEMPTS) {
+      await new Promise(resolve => setTimeout(resolve, attempt * 1000));
+    }
+  }
+
+  await logRefreshFailure(lastError, false);
+  return null;
+}
+
+async function logRefreshFailure(reason: string, signedOut: boolean) {
+  console.error("Microsoft token refresh failed:", reason);
+  await storage.createActivity({
+    type: "auth_error",
+    description: signedOut
+      ? "Microsoft sign-in expired. Please re-authenticate in Settings."
+      : "Could not refresh Microsoft access token. Reconnect in Settings or try syncing again.",
+    metadata: { reason, signedOut },
+  });
+}
+
+// fetch() against Graph with a valid bearer token, refreshing and retrying once on 401
+export async function graphFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  const token = await getAccessToken();
+
+  if (!token) {
+    throw new MicrosoftAuthError("Microsoft access token not configured. Please authenticate in Settings.");
+  }
+
+  const send = (accessToken: string) => fetch(url, {
+    ...init,
+    headers: {
+      ...init.headers,
+      'Authorization': `Bearer ${accessToken}`,
+      'Content-Type': 'application/json'
+    }
+  });
+
+  const response = await send(token);
+  if (response.status !== 401) {
+    return response;
+  }
+
+  const refreshedToken = await getAccessToken({ forceRefresh: true });
+  if (!refreshedToken) {
+    throw new MicrosoftAuthError("Authentication expired. Please re-authenticate in Settings.");
+  }
+
+  return send(refreshedToken);
+}
@@ -0,0 +1,20 @@
+import { storage } from "../storage";
+import type { PriorityInsights } from "@shared/schema";
+
+const ONE_WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Open-task counts behind the insight cards: high priority, due within a week, and AI-suggested
+export async function getPriorityInsights(): Promise<PriorityInsights> {
+  const tasks = await storage.getTasks();
+  const oneWeekFromNow = new Date(Date.now() + ONE_WEEK_MS);
+
+  const urgent = tasks.filter(t => !t.completed && t.priority === "high").length;
+  const dueSoon = tasks.filter(t =>
+    !t.completed && t.dueDate && t.dueDate <= oneWeekFromNow
+  ).length;
+  const suggested = tasks.filter(t =>
+    !t.completed && (t.aiScore || 0) > 70
+  ).length;
+
+  return { urgent, dueSoon, suggested };
+}
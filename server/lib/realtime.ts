@@ -0,0 +1,117 @@
+// Pushes task, activity and sync changes to each user's open tabs over a WebSocket so clients can patch their caches
+import type { IncomingMessage, Server } from "http";
+import type { RequestHandler, Request, Response } from "express";
+import { WebSocketServer, WebSocket } from "ws";
+import { storage, storageEvents } from "../storage";
+import { getPriorityInsights } from "./priority-insights";
+import { runAsUser } from "./user-context";
+import { REALTIME_PATH, type RealtimeEvent, type StorageChangeEvent } from "@shared/realtime";
+
+// Insights and list counts are recomputed once a burst of writes (a sync, a recurring completion) settles
+const AGGREGATE_DELAY_MS = 250;
+// Proxies drop idle sockets; pings keep them open and reveal clients that went away without closing
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+const socketsByUser = new Map<number, Set<WebSocket>>();
+const aggregateTimers = new Map<number, NodeJS.Timeout>();
+
+export function broadcast(userId: number, event: RealtimeEvent) {
+  const sockets = socketsByUser.get(userId);
+  if (!sockets || sockets.size === 0) return;
+
+  const message = JSON.stringify(event);
+  sockets.forEach(socket => {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(message);
+    }
+  });
+}
+
+function scheduleAggregates(userId: number) {
+  if (aggregateTimers.has(userId)) return;
+
+  aggregateTimers.set(userId, setTimeout(() => {
+    aggregateTimers.delete(userId);
+    if (!socketsByUser.has(userId)) return;
+
+    runAsUser(userId, async () => {
+      try {
+        const [insights, counts] = await Promise.all([getPriorityInsights(), storage.getOpenTaskCounts()]);
+        broadcast(userId, { type: "priority_insights", insights });
+        broadcast(userId, { type: "open_task_counts", counts });
+      } catch (error) {
+        console.error("Failed to refresh task aggregates:", error);
+      }
+    });
+  }, AGGREGATE_DELAY_MS));
+}
+
+// Runs the session and passport middleware against the upgrade request to find out who is connecting
+function authenticateUpgrade(req: IncomingMessage, sessionMiddleware: RequestHandler): Promise<number | null> {
+  return new Promise(resolve => {
+    const request = req as Request;
+    sessionMiddleware(request, {} as Response, () => {
+      const userId = (request.session as { passport?: { user?: number } } | undefined)?.passport?.user;
+      resolve(typeof userId === "number" ? userId : null);
+    });
+  });
+}
+
+export function setupRealtime(server: Server, sessionMiddleware: RequestHandler) {
+  const wss = new WebSocketServer({ noServer: true });
+  const alive = new WeakMap<WebSocket, boolean>();
+
+  // Other upgrade requests, like Vite's HMR socket in development, are left to their own listeners
+  server.on("upgrade", async (req, socket, head) => {
+    const { pathname } = new URL(req.url ?? "/", "http://localhost");
+    if (pathname !== REALTIME_PATH) return;
+
+    const userId = await authenticateUpgrade(req, sessionMiddleware);
+    if (userId === null) {
+      socket.write("HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n");
+      socket.destroy();
+      return;
+    }
+
+    wss.handleUpgrade(req, socket, head, ws => {
+      const sockets = socketsByUser.get(userId) ?? new Set<WebSocket>();
+      sockets.add(ws);
+      socketsByUser.set(userId, sockets);
+
+      ws.on("close", () => {
+        sockets.delete(ws);
+        if (sockets.size === 0) socketsByUser.delete(userId);
+      });
+      wss.emit("connection", ws, req);
+    });
+  });
+
+  wss.on("connection", (ws: WebSocket) => {
+    alive.set(ws, true);
+    ws.on("pong", () => alive.set(ws, true));
+    ws.on("error", error => console.warn("Realtime socket error:", error.message));
+  });
+
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach(ws => {
+      if (!alive.get(ws)) {
+        ws.terminate();
+        return;
+      }
+      alive.set(ws, false);
+      ws.ping();
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+
+  server.on("close", () => {
+    clearInterval(heartbeat);
+    wss.close();
+  });
+
+  storageEvents.on("change", (userId: number, change: StorageChangeEvent) => {
+    broadcast(userId, change);
+    if (change.type === "task_created" || change.type === "task_updated" || change.type === "task_deleted") {
+      scheduleAggregates(userId);
+    }
+  });
+}
@@ -0,0 +1,151 @@
+// Envelope encryption for credentials stored in the database (Microsoft client secret and OAuth tokens).
+// Each value gets its own random data key; the data key is wrapped with a master key from ENCRYPTION_KEYS.
+//
+// ENCRYPTION_KEYS="<keyId>:<base64 32-byte key>,<keyId>:<base64 key>,..."
+// The first key encrypts new values; the rest only decrypt, so a key can be rotated by putting a new one
+// first and running `npm run db:encrypt-secrets` to rewrap existing rows before the old key is dropped.
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+
+const PREFIX = "enc:v1";
+const ALGORITHM = "aes-256-gcm";
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+let masterKeys: MasterKey[] | undefined;
+
+function parseMasterKeys(value: string): MasterKey[] {
+  return value.split(",").map(entry => entry.trim()).filter(Boolean).map(entry => {
+    const separator = entry.indexOf(":");
+    const id = entry.slice(0, separator);
+    const key = Buffer.from(entry.slice(separator + 1), "base64");
+    if (separator <= 0 || !/^[A-Za-z0-9_-]+$/.test(id) || key.length !== KEY_BYTES) {
+      throw new Error(`ENCRYPTION_KEYS entries must look like "<keyId>:<base64 ${KEY_BYTES}-byte key>"`);
+    }
+    return { id, key };
+  });
+}
+
+function getMasterKeys(): MasterKey[] {
+  if (masterKeys) return masterKeys;
+
+  if (process.env.ENCRYPTION_KEYS) {
+    masterKeys = parseMasterKeys(process.env.ENCRYPTION_KEYS);
+  }
+  if (!masterKeys || masterKeys.length === 0) {
+    if (process.env.NODE_ENV === "production") {
+      throw new Error("ENCRYPTION_KEYS must be set in production");
+    }
+    console.warn("ENCRYPTION_KEYS is not set; using a development-only encryption key");
+    masterKeys = [{ id: "dev", key: createHash("sha256").update("development-encryption-key").digest() }];
+  }
+  return masterKeys;
+}
+
+function seal(key: Buffer, plaintext: Buffer): Buffer {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, ciphertext, cipher.getAuthTag()]);
+}
+
+function open(key: Buffer, sealed: Buffer): Buffer {
+  const iv = sealed.subarray(0, IV_BYTES);
+  const tag = sealed.subarray(sealed.length - TAG_BYTES);
+  const decipher = createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(sealed.subarray(IV_BYTES, sealed.length - TAG_BYTES)), decipher.final()]);
+}
+
+interface Envelope {
+  keyId: string;
+  wrappedKey: Buffer;
+  payload: Buffer;
+}
+
+function parseEnvelope(stored: string): Envelope {
+  const [scheme, version, keyId, wrappedKey, payload] = stored.split(":");
+  if (`${scheme}:${version}` !== PREFIX || !keyId || !wrappedKey || !payload) {
+    throw new Error("Malformed encrypted value");
+  }
+  return { keyId, wrappedKey: Buffer.from(wrappedKey, "base64"), payload: Buffer.from(payload, "base64") };
+}
+
+function formatEnvelope({ keyId, wrappedKey, payload }: Envelope): string {
+  return `${PREFIX}:${keyId}:${wrappedKey.toString("base64")}:${payload.toString("base64")}`;
+}
+
+function findMasterKey(keyId: string): MasterKey {
+  const masterKey = getMasterKeys().find(candidate => candidate.id === keyId);
+  if (!masterKey) {
+    throw new Error(`Encryption key "${keyId}" is not in ENCRYPTION_KEYS`);
+  }
+  return masterKey;
+}
+
+export function isEncrypted(value: string): boolean {
+  return value.startsWith(`${PREFIX}:`);
+}
+
+export function encryptSecret(plaintext: string): string {
+  const [primary] = getMasterKeys();
+  const dataKey = randomBytes(KEY_BYTES);
+  return formatEnvelope({
+    keyId: primary.id,
+    wrappedKey: seal(primary.key, dataKey),
+    payload: seal(dataKey, Buffer.from(plaintext, "utf8")),
+  });
+}
+
+// Rows written before encryption was introduced are still plaintext until the migration runs
+export function decryptSecret(stored: string): string {
+  if (!isEncrypted(stored)) return stored;
+
+  const envelope = parseEnvelope(stored);
+  const dataKey = open(findMasterKey(envelope.keyId).key, envelope.wrappedKey);
+  return open(dataKey, envelope.payload).toString("utf8");
+}
+
+// True for plaintext and for values wrapped with a key other than the current primary one
+export function needsRewrap(stored: string): boolean {
+  return !isEncrypted(stored) || parseEnvelope(stored).keyId !== getMasterKeys()[0].id;
+}
+
+// Moves a value to the primary key. Only the data key is rewrapped; the payload is left as it is.
+export function rewrapSecret(stored: string): string {
+  if (!isEncrypted(stored)) return encryptSecret(stored);
+
+  const envelope = parseEnvelope(stored);
+  const [primary] = getMasterKeys();
+  if (envelope.keyId === primary.id) return stored;
+
+  const dataKey = open(findMasterKey(envelope.keyId).key, envelope.wrappedKey);
+  return formatEnvelope({ ...envelope, keyId: primary.id, wrappedKey: seal(primary.key, dataKey) });
+}
+
+const REDACTED = "[REDACTED]";
+const SECRET_KEY_PATTERN = /secret|password|token$|verifier|^authorization$|^cookie$/i;
+
+// Copy of a value with credentials masked, for anything that gets logged or stored as activity metadata
+export function redactSecrets<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map(item => redactSecrets(item)) as T;
+  }
+  if (typeof value === "string") {
+    return (isEncrypted(value) || /^bearer\s/i.test(value) ? REDACTED : value) as T;
+  }
+  if (value && typeof value === "object" && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        SECRET_KEY_PATTERN.test(key) && item != null && item !== "" ? REDACTED : redactSecrets(item),
+      ]),
+    ) as T;
+  }
+  return value;
+}
@@ -0,0 +1,149 @@
+// Task writes shared by the REST routes and voice commands that also need mirroring to Microsoft To Do.
+// Graph calls go through afterCommit, so inside storage.transaction() they only happen once it commits.
+import { storage, afterCommit } from "../storage";
+import { createMicrosoftTask, createMicrosoftChecklistItem, updateMicrosoftTask, deleteMicrosoftTask, getSyncedTaskChanges, sameTagNames } from "./microsoft-graph";
+import { getFirstOccurrence, getNextOccurrence, describeRecurrence } from "@shared/recurrence";
+import type { Task, ChecklistItem, Tag, RecurrenceRule } from "@shared/schema";
+
+// Push local edits of a Microsoft-linked task back to Microsoft To Do
+export async function syncTaskChangesToMicrosoft(before: Task, after: Task) {
+  if (!after.microsoftId) return;
+
+  const changes = getSyncedTaskChanges(before, after);
+  const changedFields = Object.keys(changes);
+  if (changedFields.length === 0) return;
+
+  await afterCommit(async () => {
+    const syncSuccess = await updateMicrosoftTask(after, changes);
+    if (!syncSuccess) return;
+
+    const description = changedFields.length === 1 && 'completed' in changes
+      ? `Synced task status to Microsoft To Do: "${after.title}" ${changes.completed ? 'completed' : 'reopened'}`
+      : `Synced task changes to Microsoft To Do: "${after.title}" (${changedFields.join(', ')})`;
+
+    await storage.createActivity({
+      type: "sync",
+      description,
+      metadata: { taskId: after.id, microsoftId: after.microsoftId, fields: changedFields }
+    });
+  });
+}
+
+// Add a step to a task, mirroring it to Microsoft To Do when the task is linked
+export async function createChecklistItemWithSync(task: Task, title: string): Promise<ChecklistItem> {
+  const item = await storage.createChecklistItem({ taskId: task.id, title });
+  if (!task.microsoftId) return item;
+
+  let linkedItem = item;
+  await afterCommit(async () => {
+    const microsoftId = await createMicrosoftChecklistItem(task, item);
+    if (!microsoftId) return;
+
+    linkedItem = (await storage.updateChecklistItem(item.id, { microsoftId })) ?? item;
+  });
+  return linkedItem;
+}
+
+// Retag a task, pushing the tags to Microsoft To Do as categories when the task is linked
+export async function setTaskTagsWithSync(task: Task, names: string[]): Promise<Tag[]> {
+  const before = (await storage.getTagsForTask(task.id)).map(tag => tag.name);
+  const tags = await storage.setTaskTags(task.id, names);
+  const after = tags.map(tag => tag.name);
+
+  if (task.microsoftId && !sameTagNames(before, after)) {
+    await afterCommit(async () => {
+      if (!await updateMicrosoftTask(task, { tags: after })) return;
+
+      await storage.createActivity({
+        type: "sync",
+        description: `Synced task changes to Microsoft To Do: "${task.title}" (categories)`,
+        metadata: { taskId: task.id, microsoftId: task.microsoftId, fields: ["tags"] }
+      });
+    });
+  }
+
+  return tags;
+}
+
+// Create a new local task in the matching Microsoft To Do list and link the two. Later writes in the same
+// transaction (a voice command's "make it high priority", or deleting it again) aren't pushed while the task
+// is unlinked, so the task is read again at commit rather than sending the version it was created with.
+export async function createTaskInMicrosoft(task: Task): Promise<Task> {
+  let linkedTask = task;
+  await afterCommit(async () => {
+    const current = await storage.getTask(task.id);
+    if (!current) return;
+
+    const created = await createMicrosoftTask(current);
+    if (!created) return;
+
+    linkedTask = (await storage.updateTask(task.id, {
+      microsoftId: created.microsoftId,
+      microsoftListId: created.listId,
+    })) ?? current;
+
+    await storage.createActivity({
+      type: "sync",
+      description: `Created task in Microsoft To Do: "${current.title}"`,
+      metadata: { taskId: task.id, microsoftId: created.microsoftId }
+    });
+  });
+  return linkedTask;
+}
+
+// Delete a task, removing it from Microsoft To Do too, otherwise the next full sync brings it back
+export async function deleteTaskWithSync(task: Task): Promise<boolean> {
+  const deleted = await storage.deleteTask(task.id);
+  if (!deleted || !task.microsoftId) return deleted;
+
+  await afterCommit(async () => {
+    if (!await deleteMicrosoftTask(task)) return;
+
+    await storage.createActivity({
+      type: "sync",
+      description: `Deleted task from Microsoft To Do: "${task.title}"`,
+      metadata: { taskId: task.id, microsoftId: task.microsoftId }
+    });
+  });
+  return true;
+}
+
+// A recurrence needs a due date to count from, and Graph rejects one without it
+export function withRecurrenceDueDate<T extends { recurrence?: RecurrenceRule | null; dueDate?: Date | string | null }>(data: T, existingDueDate?: Date | null): T {
+  if (!data.recurrence || data.dueDate || existingDueDate) return data;
+  return { ...data, dueDate: getFirstOccurrence(data.recurrence) };
+}
+
+// Completing a recurring task queues up its next occurrence
+export async function scheduleNextOccurrence(before: Task, after: Task): Promise<Task | undefined> {
+  if (before.completed || !after.completed || !after.recurrence) return;
+
+  // Microsoft To Do creates the next occurrence itself; the next sync imports it
+  if (after.microsoftId) return;
+
+  const next = await storage.createTask({
+    title: after.title,
+    description: after.description,
+    priority: after.priority,
+    listId: after.listId,
+    recurrence: after.recurrence,
+    aiScore: after.aiScore,
+    dueDate: getNextOccurrence(after.recurrence, after.dueDate ?? new Date()),
+  });
+
+  const steps = await storage.getChecklistItems(after.id);
+  for (const step of steps) {
+    await storage.createChecklistItem({ taskId: next.id, title: step.title });
+  }
+
+  // The completed task hands its rule on, so reopening it doesn't spawn a second copy
+  await storage.updateTask(after.id, { recurrence: null });
+
+  await storage.createActivity({
+    type: "task_created",
+    description: `Scheduled next "${next.title}" for ${next.dueDate?.toDateString()} (${describeRecurrence(after.recurrence)})`,
+    metadata: { taskId: next.id, previousTaskId: after.id }
+  });
+
+  return next;
+}
@@ -0,0 +1,17 @@
+// The signed-in user for the current request, so storage and the Graph helpers scope to it
+// without every call site passing a user ID along
+import { AsyncLocalStorage } from "async_hooks";
+
+const userContext = new AsyncLocalStorage<{ userId: number }>();
+
+export function runAsUser<T>(userId: number, fn: () => T): T {
+  return userContext.run({ userId }, fn);
+}
+
+export function currentUserId(): number {
+  const store = userContext.getStore();
+  if (!store) {
+    throw new Error("No signed-in user for this request");
+  }
+  return store.userId;
+}
@@ -0,0 +1,68 @@
+// Request validation against the zod schemas in @shared/schema, and the JSON error shape every route uses
+import type { RequestHandler } from "express";
+import type { ZodError, ZodTypeAny, z } from "zod";
+
+// `errors` maps a field path ("title", "ids.2") to its messages; only validation errors carry it
+export interface ApiErrorBody {
+  message: string;
+  errors?: Record<string, string[]>;
+}
+
+export function formatZodError(error: ZodError): ApiErrorBody {
+  const errors: Record<string, string[]> = {};
+  const messages: string[] = [];
+
+  for (const issue of error.issues) {
+    const path = issue.path.join(".");
+    messages.push(path ? `${path}: ${issue.message}` : issue.message);
+    if (path) {
+      (errors[path] ??= []).push(issue.message);
+    }
+  }
+
+  return { message: messages.join("; "), errors };
+}
+
+interface RequestSchemas<P extends ZodTypeAny, B extends ZodTypeAny, Q extends ZodTypeAny> {
+  params?: P;
+  body?: B;
+  query?: Q;
+}
+
+type Parsed<T extends ZodTypeAny> = z.infer<T>;
+
+// Replaces req.params, req.body and req.query with their parsed values, or answers 400 with field errors.
+// Route handlers after it see the parsed types.
+export function validate<
+  P extends ZodTypeAny = ZodTypeAny,
+  B extends ZodTypeAny = ZodTypeAny,
+  Q extends ZodTypeAny = ZodTypeAny,
+>(schemas: RequestSchemas<P, B, Q>): RequestHandler<Parsed<P>, unknown, Parsed<B>, Parsed<Q>> {
+  return (req, res, next) => {
+    if (schemas.params) {
+      const params = schemas.params.safeParse(req.params);
+      if (!params.success) {
+        return res.status(400).json(formatZodError(params.error));
+      }
+      req.params = params.data;
+    }
+
+    if (schemas.body) {
+      const body = schemas.body.safeParse(req.body);
+      if (!body.success) {
+        return res.status(400).json(formatZodError(body.error));
+      }
+      req.body = body.data;
+    }
+
+    if (schemas.query) {
+      const query = schemas.query.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json(formatZodError(query.error));
+      }
+      req.query = query.data;
+    }
+
+    next();
+  };
+}
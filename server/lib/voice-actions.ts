@@ -0,0 +1,495 @@
+// Carries out the actions of a voice command. They run in one storage transaction, so a command either
+// applies completely or not at all; the caller gets a result per action either way.
+import { format, isSameDay, isToday, isTomorrow } from "date-fns";
+import { storage } from "../storage";
+import {
+  taskQuerySchema,
+  taskSearchQuerySchema,
+  type InsertTask,
+  type List,
+  type Task,
+  type TaskSearchResult,
+  type VoiceActionResult,
+  type VoiceCommandResponse,
+  type VoicePlanAction,
+  type VoiceTaskCandidate,
+} from "@shared/schema";
+import { calculateSimilarity } from "./similarity";
+import {
+  createTaskInMicrosoft,
+  createChecklistItemWithSync,
+  setTaskTagsWithSync,
+  syncTaskChangesToMicrosoft,
+  scheduleNextOccurrence,
+  withRecurrenceDueDate,
+  deleteTaskWithSync,
+} from "./task-operations";
+import { parseVoiceDate, type VoiceAction, type VoiceCommandResult, type VoiceIntent, type VoiceQuery } from "./voice-contract";
+
+// Most titles a spoken answer reads out
+const QUERY_ANSWER_LIMIT = 10;
+
+// An action that can't be carried out as asked; rolls back the whole command
+class VoiceActionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "VoiceActionError";
+  }
+}
+
+interface AppliedAction {
+  message: string;
+  taskId?: number;
+  // Read-only queries answer rather than change anything
+  answered?: boolean;
+}
+
+type ActionHandler = (action: VoiceAction, voiceCommandId: number) => Promise<AppliedAction>;
+
+// How sure the title match must be, and how far ahead of the runner-up, to act without asking
+const CONFIDENT_MATCH = 0.8;
+const CLOSE_MATCH_MARGIN = 0.1;
+// Most tasks offered when asking which one was meant
+const MAX_CANDIDATES = 5;
+
+// The task an action refers to is unclear; nothing is applied until the user picks one of the candidates
+class VoiceClarificationNeeded extends VoiceActionError {
+  constructor(reference: string, readonly candidates: Task[]) {
+    super(candidates.length === 1 ? `Did you mean "${candidates[0].title}"?` : `Which "${reference}" did you mean?`);
+    this.name = "VoiceClarificationNeeded";
+  }
+}
+
+interface TaskMatch {
+  task: Task;
+  similarity: number;
+}
+
+// add_task names a new task and queries name none; everything else acts on an existing task
+function targetsExistingTask(intent: VoiceIntent): boolean {
+  return intent !== "add_task" && intent !== "query_tasks" && intent !== "unknown";
+}
+
+// Ranked like /api/tasks/search. Only completed tasks are candidates for reopening, so "reopen the report"
+// doesn't land on an open one with a similar title.
+async function searchTargetTasks(action: VoiceAction): Promise<TaskSearchResult[]> {
+  const title = action.taskData?.title ?? "";
+  if (!title.trim()) return [];
+  const status = action.intent === "reopen_task" ? "completed" : "all";
+  return storage.searchTasks(taskSearchQuerySchema.parse({ q: title, status, limit: MAX_CANDIDATES }));
+}
+
+// A unique exact title, or a confident match well ahead of the rest; anything closer needs the user to pick
+function confidentMatch(title: string, matches: TaskSearchResult[]): TaskSearchResult | undefined {
+  const exact = matches.filter(match => match.task.title.trim().toLowerCase() === title.trim().toLowerCase());
+  if (exact.length === 1) return exact[0];
+
+  const [best, runnerUp] = matches;
+  if (best && best.similarity >= CONFIDENT_MATCH && (!runnerUp || best.similarity - runnerUp.similarity >= CLOSE_MATCH_MARGIN)) {
+    return best;
+  }
+  return undefined;
+}
+
+// Find the task an action refers to: the one it's pinned to, or a confident title match
+async function resolveTargetTask(action: VoiceAction): Promise<TaskMatch> {
+  if (action.taskId) {
+    const task = await storage.getTask(action.taskId);
+    if (!task) {
+      throw new VoiceActionError("That task no longer exists");
+    }
+    return { task, similarity: 1 };
+  }
+
+  const title = action.taskData?.title ?? "";
+  const matches = await searchTargetTasks(action);
+  if (matches.length === 0) {
+    throw new VoiceActionError(`Couldn't find ${action.intent === "reopen_task" ? "a completed" : "a"} task matching "${title}"`);
+  }
+
+  const match = confidentMatch(title, matches);
+  if (!match) {
+    throw new VoiceClarificationNeeded(title, matches.map(result => result.task));
+  }
+  return match;
+}
+
+// "make it high priority", "delete that one": words that point back at a task rather than name it
+const TASK_PRONOUN = /^(?:it|that|this|that one|this one|that task|this task|same one|the same one)$/i;
+
+// Pins a pronoun to the most recently referenced task: earlier in this command, or else in the conversation
+function withReferencedTask(action: VoiceAction, recentTaskIds: number[]): VoiceAction {
+  const title = action.taskData?.title ?? "";
+  // add_task's title is the new task's, so "add it" isn't a reference
+  if (action.taskId || action.intent === "add_task" || !TASK_PRONOUN.test(title.trim())) return action;
+  if (recentTaskIds.length === 0) {
+    throw new VoiceActionError(`Not sure which task "${title}" means; please say its name`);
+  }
+  return { ...action, taskId: recentTaskIds[0] };
+}
+
+async function describeCandidates(candidates: Task[]): Promise<VoiceTaskCandidate[]> {
+  const listNames = new Map((await storage.getLists()).map(list => [list.id, list.name] as const));
+  return candidates.map(task => ({
+    taskId: task.id,
+    title: task.title,
+    completed: Boolean(task.completed),
+    dueDate: task.dueDate ? task.dueDate.toISOString() : null,
+    listName: task.listId ? listNames.get(task.listId) ?? null : null,
+  }));
+}
+
+// The list a voice command names, allowing for small transcription differences
+async function findListByName(name: string): Promise<List | undefined> {
+  const exact = await storage.getListByName(name);
+  if (exact) return exact;
+
+  const lists = await storage.getLists();
+  let bestMatch: List | undefined;
+  let bestSimilarity = 0;
+
+  for (const list of lists) {
+    const similarity = calculateSimilarity(list.name, name);
+    if (similarity > bestSimilarity && similarity > 0.7) {
+      bestMatch = list;
+      bestSimilarity = similarity;
+    }
+  }
+
+  return bestMatch;
+}
+
+// Find the list a voice command refers to ("add milk to Groceries"), creating it if nothing is close
+async function resolveListByName(name: string) {
+  return await findListByName(name) ?? storage.createList({ name: name.trim() });
+}
+
+async function logVoiceActivity(voiceCommandId: number, description: string, metadata: Record<string, unknown>) {
+  await storage.createActivity({
+    type: "voice_command",
+    description: `Voice command processed: ${description}`,
+    metadata: { voiceCommandId, ...metadata }
+  });
+}
+
+// Apply field changes to a matched task the way PATCH /api/tasks/:id does
+async function changeTask(task: Task, updates: Partial<InsertTask>): Promise<Task> {
+  const updatedTask = await storage.updateTask(task.id, withRecurrenceDueDate(updates, task.dueDate));
+  if (!updatedTask) {
+    throw new VoiceActionError(`"${task.title}" no longer exists`);
+  }
+
+  // If this is a Microsoft task, push the changes back to Microsoft
+  await syncTaskChangesToMicrosoft(task, updatedTask);
+  await scheduleNextOccurrence(task, updatedTask);
+  return updatedTask;
+}
+
+function describeDay(date: Date): string {
+  if (isToday(date)) return "today";
+  if (isTomorrow(date)) return "tomorrow";
+  return `on ${format(date, "EEEE, MMMM d")}`;
+}
+
+function describeDueWindow(dueFrom?: Date, dueTo?: Date): string {
+  if (dueFrom && dueTo) {
+    return isSameDay(dueFrom, dueTo) ? `due ${describeDay(dueFrom)}` : `due between ${format(dueFrom, "MMMM d")} and ${format(dueTo, "MMMM d")}`;
+  }
+  if (dueTo) return dueTo.getTime() <= Date.now() ? "overdue" : `due by ${format(dueTo, "EEEE, MMMM d")}`;
+  if (dueFrom) return `due from ${format(dueFrom, "EEEE, MMMM d")}`;
+  return "";
+}
+
+function joinTitles(tasks: Task[]): string {
+  const titles = tasks.map(task => `"${task.title}"`);
+  return titles.length > 1 ? `${titles.slice(0, -1).join(", ")} and ${titles[titles.length - 1]}` : titles.join("");
+}
+
+const addTask: ActionHandler = async ({ taskData = {}, confidence }, voiceCommandId) => {
+  const list = taskData.listName ? await resolveListByName(taskData.listName) : undefined;
+  const newTask = await storage.createTask(withRecurrenceDueDate({
+    title: taskData.title ?? "Untitled Task",
+    description: taskData.description,
+    priority: taskData.priority || "normal",
+    dueDate: taskData.dueDate ? parseVoiceDate(taskData.dueDate, false) : undefined,
+    listId: list?.id,
+    recurrence: taskData.recurrence,
+    aiScore: confidence * 100
+  }));
+  if (taskData.tags?.length) {
+    await storage.setTaskTags(newTask.id, taskData.tags);
+  }
+  const task = await createTaskInMicrosoft(newTask);
+
+  const message = `Added "${task.title}"${list ? ` to ${list.name}` : ""}`;
+  await logVoiceActivity(voiceCommandId, message, { taskId: task.id, listId: list?.id });
+  return { message, taskId: task.id };
+};
+
+// update_task and complete_task; taskData.title names the task to change, it isn't a new title
+const updateTask: ActionHandler = async (action, voiceCommandId) => {
+  const { intent, taskData = {} } = action;
+  const { task: bestMatch, similarity } = await resolveTargetTask(action);
+  const updatedTask = await changeTask(bestMatch, {
+    description: taskData.description || bestMatch.description,
+    priority: taskData.priority || bestMatch.priority,
+    dueDate: taskData.dueDate ? parseVoiceDate(taskData.dueDate, false) : bestMatch.dueDate,
+    recurrence: taskData.recurrence ?? bestMatch.recurrence,
+    completed: intent === "complete_task" ? true : (taskData.completed ?? bestMatch.completed)
+  });
+
+  // Spoken tags add to the task's tags rather than replacing them
+  if (taskData.tags?.length) {
+    const currentTags = (await storage.getTagsForTask(updatedTask.id)).map(tag => tag.name);
+    await setTaskTagsWithSync(updatedTask, currentTags.concat(taskData.tags));
+  }
+
+  const message = `${intent === "complete_task" ? "Completed" : "Updated"} "${bestMatch.title}"`;
+  await logVoiceActivity(voiceCommandId, `${message} (${Math.round(similarity * 100)}% match)`, { taskId: bestMatch.id, similarity });
+  return { message, taskId: bestMatch.id };
+};
+
+const reopenTask: ActionHandler = async (action, voiceCommandId) => {
+  const { task, similarity } = await resolveTargetTask(action);
+  if (!task.completed) {
+    throw new VoiceActionError(`"${task.title}" isn't completed`);
+  }
+  await changeTask(task, { completed: false });
+
+  const message = `Reopened "${task.title}"`;
+  await logVoiceActivity(voiceCommandId, `${message} (${Math.round(similarity * 100)}% match)`, { taskId: task.id, similarity });
+  return { message, taskId: task.id };
+};
+
+const setPriority: ActionHandler = async (action, voiceCommandId) => {
+  const { task, similarity } = await resolveTargetTask(action);
+  const { taskData = {} } = action;
+  const priority = taskData.priority ?? "normal";
+  await changeTask(task, { priority });
+
+  const message = `Set "${task.title}" to ${priority} priority`;
+  await logVoiceActivity(voiceCommandId, `${message} (${Math.round(similarity * 100)}% match)`, { taskId: task.id, similarity });
+  return { message, taskId: task.id };
+};
+
+const setDueDate: ActionHandler = async (action, voiceCommandId) => {
+  const { task, similarity } = await resolveTargetTask(action);
+  const { taskData = {} } = action;
+  const dueDate = parseVoiceDate(taskData.dueDate ?? "", false);
+  await changeTask(task, { dueDate });
+
+  const message = `Rescheduled "${task.title}" to ${describeDay(dueDate).replace(/^on /, "")}`;
+  await logVoiceActivity(voiceCommandId, `${message} (${Math.round(similarity * 100)}% match)`, { taskId: task.id, similarity });
+  return { message, taskId: task.id };
+};
+
+// Changes the local list only, like editing the list in the task dialog; a Microsoft-linked task stays in its To Do list
+const moveToList: ActionHandler = async (action, voiceCommandId) => {
+  const { task, similarity } = await resolveTargetTask(action);
+  const { taskData = {} } = action;
+  const list = await resolveListByName(taskData.listName ?? "");
+  await changeTask(task, { listId: list.id });
+
+  const message = `Moved "${task.title}" to ${list.name}`;
+  await logVoiceActivity(voiceCommandId, `${message} (${Math.round(similarity * 100)}% match)`, { taskId: task.id, listId: list.id, similarity });
+  return { message, taskId: task.id };
+};
+
+const deleteTask: ActionHandler = async (action, voiceCommandId) => {
+  const { task, similarity } = await resolveTargetTask(action);
+  if (!await deleteTaskWithSync(task)) {
+    throw new VoiceActionError(`"${task.title}" no longer exists`);
+  }
+
+  const message = `Deleted "${task.title}"`;
+  await logVoiceActivity(voiceCommandId, `${message} (${Math.round(similarity * 100)}% match)`, { taskId: task.id, similarity });
+  return { message, taskId: task.id };
+};
+
+// "open high priority tasks in Work tagged urgent due tomorrow"
+function describeQuery(query: VoiceQuery, status: string, list: List | undefined, single: boolean, dueFrom?: Date, dueTo?: Date): string {
+  return [
+    status === "all" ? "" : status,
+    query.priority ? `${query.priority} priority` : "",
+    single ? "task" : "tasks",
+    list ? `in ${list.name}` : "",
+    query.tag ? `tagged ${query.tag}` : "",
+    describeDueWindow(dueFrom, dueTo),
+  ].filter(Boolean).join(" ");
+}
+
+// Answers "what's due tomorrow?" and the like from the task list; writes nothing
+const queryTasks: ActionHandler = async ({ query = {} }) => {
+  const list = query.listName ? await findListByName(query.listName) : undefined;
+  if (query.listName && !list) {
+    return { message: `You don't have a list called ${query.listName}`, answered: true };
+  }
+
+  const dueFrom = query.dueFrom ? parseVoiceDate(query.dueFrom, false) : undefined;
+  const dueTo = query.dueTo ? parseVoiceDate(query.dueTo, true) : undefined;
+  const status = query.status ?? "open";
+  const page = await storage.getTaskPage(taskQuerySchema.parse({
+    status,
+    priority: query.priority,
+    listId: list?.id,
+    tag: query.tag?.toLowerCase(),
+    dueFrom,
+    dueTo,
+    sort: dueFrom || dueTo ? "dueDate" : "priority",
+    limit: QUERY_ANSWER_LIMIT,
+  }));
+
+  const description = describeQuery(query, status, list, page.tasks.length === 1, dueFrom, dueTo);
+  if (page.tasks.length === 0) {
+    return { message: `You have no ${description}`, answered: true };
+  }
+  const count = page.nextCursor ? `more than ${page.tasks.length}` : `${page.tasks.length}`;
+  return {
+    message: `You have ${count} ${description}${page.nextCursor ? `, starting with` : ":"} ${joinTitles(page.tasks)}`,
+    answered: true,
+  };
+};
+
+const addChecklistItem: ActionHandler = async (action, voiceCommandId) => {
+  const match = await resolveTargetTask(action);
+  const item = await createChecklistItemWithSync(match.task, action.taskData?.checklistItem ?? "");
+
+  const message = `Added step "${item.title}" to "${match.task.title}"`;
+  await logVoiceActivity(voiceCommandId, `${message} (${Math.round(match.similarity * 100)}% match)`, {
+    taskId: match.task.id,
+    checklistItemId: item.id,
+    similarity: match.similarity,
+  });
+  return { message, taskId: match.task.id };
+};
+
+const handlers: Partial<Record<VoiceIntent, ActionHandler>> = {
+  add_task: addTask,
+  update_task: updateTask,
+  complete_task: updateTask,
+  reopen_task: reopenTask,
+  delete_task: deleteTask,
+  set_priority: setPriority,
+  set_due_date: setDueDate,
+  move_to_list: moveToList,
+  add_checklist_item: addChecklistItem,
+  query_tasks: queryTasks,
+};
+
+function unsupported(intent: VoiceIntent): string {
+  return intent === "unknown" ? "Didn't understand what to do" : `Can't ${intent.replace(/_/g, " ")} by voice yet`;
+}
+
+// The response is written before any query has run, any "it" is looked up or the user edits the plan, so
+// in those cases it's rebuilt from what the actions actually did
+function describeResults(command: VoiceCommandResult, results: VoiceActionResult[], rephrase: boolean): string {
+  if (!rephrase && !results.some(result => result.status === "answered")) return command.response;
+  return results.map(result => `${result.message}.`).join(" ");
+}
+
+// Works out what each action would touch without changing anything, for the user to check and edit
+export async function previewVoiceActions(command: VoiceCommandResult, recentTaskIds: number[] = []): Promise<VoicePlanAction[]> {
+  const plan: VoicePlanAction[] = [];
+
+  for (const action of command.actions) {
+    if (!targetsExistingTask(action.intent)) {
+      plan.push({ ...action, candidates: [] });
+      continue;
+    }
+
+    let pinned = action;
+    try {
+      pinned = withReferencedTask(action, recentTaskIds);
+    } catch {
+      // "it" with nothing to refer to yet; running the plan reports it
+    }
+
+    if (pinned.taskId) {
+      const task = await storage.getTask(pinned.taskId);
+      plan.push({ ...pinned, candidates: await describeCandidates(task ? [task] : []) });
+      continue;
+    }
+
+    const matches = await searchTargetTasks(action);
+    const match = confidentMatch(action.taskData?.title ?? "", matches);
+    plan.push({ ...action, taskId: match?.task.id, candidates: await describeCandidates(matches.map(result => result.task)) });
+  }
+
+  return plan;
+}
+
+export interface ExecuteOptions {
+  // The tasks the conversation referred to last, most recent first, for resolving "it"
+  recentTaskIds?: number[];
+  // Describe the outcome from the results rather than the command's own response, e.g. after an edit
+  describeResults?: boolean;
+}
+
+export async function executeVoiceActions(
+  voiceCommandId: number,
+  command: VoiceCommandResult,
+  { recentTaskIds = [], describeResults: rephrase = false }: ExecuteOptions = {},
+): Promise<VoiceCommandResponse> {
+  const results: VoiceActionResult[] = command.actions.map(action => ({
+    intent: action.intent,
+    status: "skipped",
+    message: "Not attempted",
+  }));
+  let current = 0;
+  // Whether any action was pinned to a task instead of matched by its spoken title
+  let referenced = rephrase;
+
+  try {
+    await storage.transaction(async () => {
+      const recent = recentTaskIds.slice();
+      for (; current < command.actions.length; current++) {
+        const action = withReferencedTask(command.actions[current], recent);
+        referenced = referenced || action.taskId !== undefined;
+        const handler = handlers[action.intent];
+        if (!handler) {
+          throw new VoiceActionError(unsupported(action.intent));
+        }
+
+        const { answered, ...applied } = await handler(action, voiceCommandId);
+        results[current] = { intent: action.intent, status: answered ? "answered" : "applied", ...applied };
+        if (applied.taskId !== undefined && action.intent !== "delete_task") {
+          recent.unshift(applied.taskId);
+        }
+      }
+    });
+  } catch (error) {
+    if (!(error instanceof VoiceActionError)) throw error;
+
+    const failed = command.actions[current];
+    if (error instanceof VoiceClarificationNeeded) {
+      // The whole command waits for the answer; the follow-up runs it again with the chosen task
+      results.forEach((result, index) => {
+        if (result.status === "applied") {
+          results[index] = { ...result, status: "skipped", message: `${result.message} (waiting for your answer)` };
+        }
+      });
+      results[current] = { intent: failed.intent, status: "needs_clarification", message: error.message };
+      return {
+        success: false,
+        response: error.message,
+        actions: results,
+        clarification: { question: error.message, actionIndex: current, candidates: await describeCandidates(error.candidates) },
+      };
+    }
+
+    results.forEach((result, index) => {
+      if (index < current && result.status === "applied") {
+        results[index] = { ...result, status: "rolled_back", message: `${result.message} (undone)` };
+      }
+    });
+    results[current] = { intent: failed.intent, status: "failed", message: error.message };
+
+    // A lone "unknown" keeps the assistant's own explanation
+    const response = failed.intent === "unknown" && command.actions.length === 1
+      ? command.response
+      : `Nothing was changed: ${error.message}`;
+    return { success: false, response, actions: results };
+  }
+
+  return { success: true, response: describeResults(command, results, referenced), actions: results };
+}
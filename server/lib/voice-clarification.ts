@@ -0,0 +1,101 @@
+// A voice command waiting on "which task did you mean?". It's kept in the user's session between
+// POST /api/voice-command and POST /api/voice-command/clarify, so the answer can finish the original command.
+import type { Request } from "express";
+import type { VoiceClarificationBody, VoiceCommandResponse, VoiceTaskCandidate } from "@shared/schema";
+import { calculateSimilarity } from "./similarity";
+import type { VoiceCommandResult } from "./voice-contract";
+
+// An unanswered question goes stale, so a much later reply isn't taken as its answer
+const PENDING_COMMAND_MAX_AGE_MS = 5 * 60 * 1000;
+// A spoken title has to be this close to one candidate's to pick it
+const TITLE_ANSWER_SIMILARITY = 0.8;
+
+export interface PendingVoiceCommand {
+  voiceCommandId: number;
+  command: VoiceCommandResult;
+  actionIndex: number;
+  candidates: VoiceTaskCandidate[];
+  createdAt: number;
+}
+
+declare module "express-session" {
+  interface SessionData {
+    pendingVoiceCommand?: PendingVoiceCommand;
+  }
+}
+
+const ORDINALS = ["first", "second", "third", "fourth", "fifth"];
+const NUMBERS = ["one", "two", "three", "four", "five"];
+
+// Keep the command when its result asks a question; any other result means nothing is pending any more
+export function holdForClarification(session: Request["session"], voiceCommandId: number, command: VoiceCommandResult, result: VoiceCommandResponse) {
+  if (!result.clarification) {
+    delete session.pendingVoiceCommand;
+    return;
+  }
+
+  session.pendingVoiceCommand = {
+    voiceCommandId,
+    command,
+    actionIndex: result.clarification.actionIndex,
+    candidates: result.clarification.candidates,
+    createdAt: Date.now(),
+  };
+}
+
+export function getPendingVoiceCommand(session: Request["session"]): PendingVoiceCommand | null {
+  const pending = session.pendingVoiceCommand;
+  if (pending && Date.now() - pending.createdAt <= PENDING_COMMAND_MAX_AGE_MS) {
+    return pending;
+  }
+  delete session.pendingVoiceCommand;
+  return null;
+}
+
+export function clearPendingVoiceCommand(session: Request["session"]) {
+  delete session.pendingVoiceCommand;
+}
+
+// "the second one", "number 2", "the last one", or the task's title
+function candidateFromAnswer(answer: string, candidates: VoiceTaskCandidate[]): VoiceTaskCandidate | "cancel" | null {
+  const text = answer.toLowerCase().replace(/[.!?,]/g, "").trim();
+
+  if (/^(?:no|nope|none|neither|cancel|never ?mind|forget it|stop)\b/.test(text)) return "cancel";
+  if (candidates.length === 1 && /^(?:yes|yeah|yep|yup|sure|correct|right|that one)\b/.test(text)) return candidates[0];
+  if (/\blast\b/.test(text)) return candidates[candidates.length - 1];
+
+  const ordinal = text.match(new RegExp(`\\b(${ORDINALS.join("|")})\\b`));
+  if (ordinal) return candidates[ORDINALS.indexOf(ordinal[1])] ?? null;
+  const digit = text.match(/\b([1-9])(?:st|nd|rd|th)?\b/);
+  if (digit) return candidates[Number(digit[1]) - 1] ?? null;
+  const number = text.match(new RegExp(`^(?:the |number |option )?(${NUMBERS.join("|")})(?: one)?$`));
+  if (number) return candidates[NUMBERS.indexOf(number[1])] ?? null;
+
+  const scored = candidates
+    .map(candidate => ({ candidate, similarity: calculateSimilarity(candidate.title, text) }))
+    .sort((a, b) => b.similarity - a.similarity);
+  const [best, runnerUp] = scored;
+  if (best && best.similarity >= TITLE_ANSWER_SIMILARITY && (!runnerUp || runnerUp.similarity < best.similarity)) {
+    return best.candidate;
+  }
+  return null;
+}
+
+// The task the user picked, "cancel", or null when the answer doesn't pick out one of the candidates
+export function chooseCandidate(pending: PendingVoiceCommand, body: VoiceClarificationBody): number | "cancel" | null {
+  if (body.cancel) return "cancel";
+  if (body.taskId !== undefined) {
+    return pending.candidates.some(candidate => candidate.taskId === body.taskId) ? body.taskId : null;
+  }
+
+  const choice = candidateFromAnswer(body.answer ?? "", pending.candidates);
+  return choice === "cancel" || choice === null ? choice : choice.taskId;
+}
+
+// The original command with the ambiguous action pinned to the chosen task
+export function withChosenTask(pending: PendingVoiceCommand, taskId: number): VoiceCommandResult {
+  return {
+    ...pending.command,
+    actions: pending.command.actions.map((action, index) => index === pending.actionIndex ? { ...action, taskId } : action),
+  };
+}
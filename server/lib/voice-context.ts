@@ -0,0 +1,76 @@
+// What the voice assistant remembers between commands in one session: the last few exchanges and the
+// tasks they touched, so "add call the plumber" can be followed by "make it high priority".
+//
+// VOICE_CONTEXT_IDLE_MINUTES  forget the conversation after this long without a command, default 10
+import type { Request } from "express";
+import { storage } from "../storage";
+import type { VoiceCommandResponse } from "@shared/schema";
+
+const MAX_TURNS = 5;
+const MAX_RECENT_TASKS = 5;
+
+export interface VoiceTurn {
+  transcription: string;
+  response: string;
+}
+
+export interface VoiceContextTask {
+  id: number;
+  title: string;
+}
+
+export interface VoiceContext {
+  turns: VoiceTurn[];
+  // Most recently referenced first
+  recentTasks: VoiceContextTask[];
+  lastActiveAt: number;
+}
+
+declare module "express-session" {
+  interface SessionData {
+    voiceContext?: VoiceContext;
+  }
+}
+
+function idleLimitMs(): number {
+  const minutes = Number(process.env.VOICE_CONTEXT_IDLE_MINUTES);
+  return (process.env.VOICE_CONTEXT_IDLE_MINUTES && Number.isFinite(minutes) ? minutes : 10) * 60 * 1000;
+}
+
+export function getVoiceContext(session: Request["session"]): VoiceContext | null {
+  const context = session.voiceContext;
+  if (context && Date.now() - context.lastActiveAt <= idleLimitMs()) {
+    return context;
+  }
+  delete session.voiceContext;
+  return null;
+}
+
+// Adds an exchange and the tasks its actions touched; deleted tasks drop out since they can't be referred to
+export async function recordVoiceTurn(session: Request["session"], transcription: string, result: VoiceCommandResponse) {
+  const context = getVoiceContext(session) ?? { turns: [], recentTasks: [], lastActiveAt: Date.now() };
+
+  const touchedIds = result.actions
+    .filter(action => action.taskId !== undefined && (action.status === "applied" || action.status === "answered"))
+    .map(action => action.taskId!)
+    .reverse();
+  const touched: VoiceContextTask[] = [];
+  for (const id of touchedIds) {
+    const task = await storage.getTask(id);
+    if (task && !touched.some(existing => existing.id === id)) {
+      touched.push({ id, title: task.title });
+    }
+  }
+  const deletedIds = result.actions
+    .filter(action => action.intent === "delete_task" && action.status === "applied")
+    .map(action => action.taskId);
+
+  session.voiceContext = {
+    turns: context.turns.concat({ transcription, response: result.response }).slice(-MAX_TURNS),
+    recentTasks: touched
+      .concat(context.recentTasks.filter(task => !touched.some(existing => existing.id === task.id)))
+      .filter(task => !deletedIds.includes(task.id))
+      .slice(0, MAX_RECENT_TASKS),
+    lastActiveAt: Date.now(),
+  };
+}
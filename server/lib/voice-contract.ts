@@ -0,0 +1,160 @@
+// The contract between the voice-command route and the LLM. A command is an ordered list of actions
+// ("add milk and mark the report as done" is two). voiceCommandToolSchema is what the model is asked to
+// fill in (strict tool calling wants every field present, null when unused); voiceCommandResultSchema is
+// what its answer must pass before anything is written, with nulls turned into absent fields.
+import { z } from "zod";
+import { endOfDay, parseISO } from "date-fns";
+import { recurrenceRuleSchema, tagNamesSchema, weekdays } from "@shared/schema";
+
+export const voiceIntents = [
+  "add_task",
+  "update_task",
+  "complete_task",
+  "reopen_task",
+  "delete_task",
+  "set_priority",
+  "set_due_date",
+  "move_to_list",
+  "add_checklist_item",
+  "query_tasks",
+  "unknown",
+] as const;
+const priorities = ["low", "normal", "medium", "high"] as const;
+const taskStatuses = ["open", "completed", "all"] as const;
+
+export type VoiceIntent = typeof voiceIntents[number];
+
+// More than this in one breath is more likely a misheard transcript than a real request
+const MAX_ACTIONS = 10;
+
+const voiceActionToolSchema = z.object({
+  intent: z.enum(voiceIntents),
+  confidence: z.number().describe("How sure you are of the intent, 0.0-1.0"),
+  taskData: z.object({
+    title: z.string().nullable().describe("Task title; for anything but add_task, the task being referred to"),
+    description: z.string().nullable(),
+    priority: z.enum(priorities).nullable(),
+    dueDate: z.string().nullable().describe("ISO 8601 date, if a due date is mentioned"),
+    completed: z.boolean().nullable(),
+    listName: z.string().nullable().describe("Target list, using an existing list's spelling when it matches"),
+    checklistItem: z.string().nullable().describe("Step to add, for add_checklist_item"),
+    recurrence: z.object({
+      type: z.enum(["daily", "weekly", "monthly"]),
+      interval: z.number().int().describe("1 for every day/week/month, 2 for every other, ..."),
+      daysOfWeek: z.array(z.enum(weekdays)).nullable().describe("Weekly rules only"),
+      dayOfMonth: z.number().int().nullable().describe("Monthly rules only"),
+    }).nullable().describe("Only if the task repeats"),
+    tags: z.array(z.string()).nullable(),
+  }).nullable(),
+  query: z.object({
+    status: z.enum(taskStatuses).nullable().describe("Defaults to open tasks"),
+    priority: z.enum(priorities).nullable(),
+    listName: z.string().nullable(),
+    tag: z.string().nullable(),
+    dueFrom: z.string().nullable().describe("ISO 8601 date or date-time; earliest due date to include"),
+    dueTo: z.string().nullable().describe("ISO 8601 date or date-time; latest due date to include, a plain date includes that whole day"),
+  }).nullable().describe("Filters for query_tasks; null for every other intent"),
+});
+
+export const voiceCommandToolSchema = z.object({
+  response: z.string().describe("Friendly confirmation message covering every action"),
+  actions: z.array(voiceActionToolSchema).describe("One entry per thing the user asked for, in the order they said them"),
+});
+
+const isDate = (value: string) => !Number.isNaN(Date.parse(value));
+
+// A plain date ("2024-05-17") is a whole local day; at the end of a range it means the end of that day
+export function parseVoiceDate(value: string, endOfRange: boolean): Date {
+  const isPlainDate = /^\d{4}-\d{2}-\d{2}$/.test(value);
+  const date = isPlainDate ? parseISO(value) : new Date(value);
+  return isPlainDate && endOfRange ? endOfDay(date) : date;
+}
+
+// null means "not mentioned" on the wire; the route only distinguishes present from absent
+function dropNulls(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(dropNulls);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).filter(([, item]) => item !== null).map(([key, item]) => [key, dropNulls(item)]),
+    );
+  }
+  return value;
+}
+
+const voiceTaskDataSchema = z.object({
+  title: z.string().trim().min(1).optional(),
+  description: z.string().trim().optional(),
+  priority: z.enum(priorities).optional(),
+  dueDate: z.string().refine(isDate, "Must be an ISO 8601 date").optional(),
+  completed: z.boolean().optional(),
+  listName: z.string().trim().min(1).optional(),
+  checklistItem: z.string().trim().min(1).optional(),
+  recurrence: recurrenceRuleSchema.optional(),
+  tags: tagNamesSchema.optional(),
+});
+
+type VoiceTaskData = z.infer<typeof voiceTaskDataSchema>;
+
+// What query_tasks asks about; answered from the user's tasks without changing any
+const voiceQuerySchema = z.object({
+  status: z.enum(taskStatuses).optional(),
+  priority: z.enum(priorities).optional(),
+  listName: z.string().trim().min(1).optional(),
+  tag: z.string().trim().min(1).optional(),
+  dueFrom: z.string().refine(isDate, "Must be an ISO 8601 date").optional(),
+  dueTo: z.string().refine(isDate, "Must be an ISO 8601 date").optional(),
+}).refine(query => !query.dueFrom || !query.dueTo || parseVoiceDate(query.dueFrom, false) <= parseVoiceDate(query.dueTo, true), {
+  message: "dueFrom must not be after dueTo",
+  path: ["dueFrom"],
+});
+
+// Fields each intent can't be carried out without
+const requiredFields: Record<VoiceIntent, (keyof VoiceTaskData)[]> = {
+  add_task: ["title"],
+  update_task: ["title"],
+  complete_task: ["title"],
+  reopen_task: ["title"],
+  delete_task: ["title"],
+  set_priority: ["title", "priority"],
+  set_due_date: ["title", "dueDate"],
+  move_to_list: ["title", "listName"],
+  add_checklist_item: ["title", "checklistItem"],
+  query_tasks: [],
+  unknown: [],
+};
+
+const voiceActionSchema = z.object({
+  intent: z.enum(voiceIntents),
+  confidence: z.number().min(0).max(1),
+  taskData: voiceTaskDataSchema.optional(),
+  query: voiceQuerySchema.optional(),
+  // Set by the server once it knows exactly which task is meant, e.g. after asking the user
+  taskId: z.number().int().positive().optional(),
+}).superRefine((action, ctx) => {
+  requiredFields[action.intent].forEach(field => {
+    if (action.taskData?.[field] === undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["taskData", field],
+        message: `Required for ${action.intent}`,
+      });
+    }
+  });
+});
+
+export const voiceCommandResultSchema = z.preprocess(dropNulls, z.object({
+  response: z.string().trim().min(1),
+  actions: z.array(voiceActionSchema).min(1).max(MAX_ACTIONS),
+}));
+
+// A previewed plan as the user confirmed it, possibly edited; held to the same rules as the model's answer
+export const voicePlanBodySchema = z.preprocess(dropNulls, z.object({
+  actions: z.array(voiceActionSchema).min(1).max(MAX_ACTIONS),
+}));
+
+// Intents that can't be undone from the app, so they can be made to always ask first
+export const destructiveIntents: VoiceIntent[] = ["delete_task"];
+
+export type VoiceAction = z.infer<typeof voiceActionSchema>;
+export type VoiceQuery = z.infer<typeof voiceQuerySchema>;
+export type VoiceCommandResult = z.infer<typeof voiceCommandResultSchema>;
@@ -0,0 +1,77 @@
+// What each voice command was understood as and what came of it, kept on the stored command so
+// GET /api/voice-commands can show the history and a misunderstood command can be re-run or corrected.
+import { storage } from "../storage";
+import type { VoiceCommandResponse, VoiceCommandStatus } from "@shared/schema";
+import { getLLMProvider, LLMOutputError } from "./llm";
+import type { VoiceInterpretation } from "./ai";
+
+// The intent all the actions share, or "multiple"
+function summarizeIntent(interpretation: VoiceInterpretation): string {
+  const intents = Array.from(new Set(interpretation.command.actions.map(action => action.intent)));
+  return intents.length === 1 ? intents[0] : "multiple";
+}
+
+export async function recordInterpretation(voiceCommandId: number, interpretation: VoiceInterpretation, latencyMs: number) {
+  const { command, model, rawOutput } = interpretation;
+  await storage.updateVoiceCommand(voiceCommandId, {
+    intent: summarizeIntent(interpretation),
+    confidence: Math.round(Math.min(...command.actions.map(action => action.confidence)) * 100),
+    aiResponse: command,
+    rawOutput,
+    model,
+    latencyMs,
+    processed: true,
+  });
+}
+
+function outcomeStatus(result: VoiceCommandResponse): VoiceCommandStatus {
+  if (result.plan) return "awaiting_confirmation";
+  if (result.clarification) return "needs_clarification";
+  if (!result.success) {
+    return result.actions.every(action => action.status === "skipped") ? "cancelled" : "failed";
+  }
+  return result.actions.every(action => action.status === "answered") ? "answered" : "applied";
+}
+
+// Called after every step of the command, so a confirmed plan or an answered question replaces the earlier outcome
+export async function recordOutcome(voiceCommandId: number, result: VoiceCommandResponse) {
+  const taskIds = result.actions
+    .filter(action => action.taskId !== undefined && (action.status === "applied" || action.status === "answered"))
+    .map(action => action.taskId!);
+
+  await storage.updateVoiceCommand(voiceCommandId, {
+    status: outcomeStatus(result),
+    result,
+    taskIds: Array.from(new Set(taskIds)),
+    error: null,
+  });
+}
+
+// The outcome of a command the user gave up on before anything was applied
+export function cancelledResult(actions: { intent: string }[]): VoiceCommandResponse {
+  return {
+    success: false,
+    response: "Okay, nothing was changed.",
+    actions: actions.map(action => ({ intent: action.intent, status: "skipped", message: "Cancelled" })),
+  };
+}
+
+// When the model's answer couldn't be used, its last reply is kept so the history shows what went wrong
+export async function recordFailure(voiceCommandId: number, error: unknown, latencyMs: number) {
+  if (error instanceof LLMOutputError) {
+    await storage.updateVoiceCommand(voiceCommandId, {
+      status: "failed",
+      processed: true,
+      model: getLLMProvider().model,
+      rawOutput: error.lastReply,
+      latencyMs,
+      error: `${error.message}: ${error.problems.join("; ")}`,
+    });
+    return;
+  }
+
+  await storage.updateVoiceCommand(voiceCommandId, {
+    status: "failed",
+    error: error instanceof Error ? error.message : String(error),
+  });
+}
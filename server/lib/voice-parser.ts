@@ -0,0 +1,407 @@
+// Rule-based parser for the commands listed in VoiceInput's help card. It needs no network, so simple
+// commands skip the LLM entirely and everything it can read still works when the LLM is unreachable.
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  endOfDay,
+  endOfMonth,
+  endOfWeek,
+  nextDay,
+  nextMonday,
+  startOfDay,
+  startOfMonth,
+  type Day,
+} from "date-fns";
+import { weekdays, type RecurrenceRule, type Weekday } from "@shared/schema";
+import type { VoiceAction, VoiceCommandResult, VoiceIntent, VoiceQuery } from "./voice-contract";
+
+type TaskData = NonNullable<VoiceAction["taskData"]>;
+type Priority = NonNullable<TaskData["priority"]>;
+
+// Fully understood commands; anything lower still serves as a fallback but is sent to the LLM first
+export const CONFIDENT_PARSE = 0.95;
+const PARTIAL_PARSE = 0.6;
+
+const WEEKDAY = `(${weekdays.join("|")})`;
+const PRIORITY = "(high|medium|normal|low)";
+const DONE = "(?:done|complete|completed|finished)";
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+};
+// Phrases the rules don't model (monthly repeats, chained clauses the splitter didn't catch)
+const UNMODELLED = /\b(every|repeats?|monthly|and then|also)\b/i;
+const COMMAND_VERB = "(?:add|create|new task|remind me to|mark|make|set|change|update|edit|complete|finish|check off|tick off|prioriti[sz]e|reopen|delete|remove|reschedule|postpone|move|put)\\b";
+// "..., then ...", "... and then ...", "...; ..." and "... and <verb> ..." start a new command
+const COMMAND_SEPARATOR = new RegExp(
+  `\\s*(?:,\\s*(?:and\\s+)?then\\s+|\\s+(?:and\\s+)?then\\s+|;\\s*|,?\\s+and\\s+(?=${COMMAND_VERB})|,\\s*(?=${COMMAND_VERB}))`,
+  "i",
+);
+
+interface ParsedAction {
+  action: VoiceAction;
+  response: string;
+}
+
+interface DueWindow {
+  from: Date;
+  to: Date;
+}
+
+interface Extracted<T> {
+  value: T;
+  rest: string;
+}
+
+function normalize(text: string): string {
+  return text.trim().replace(/\s+/g, " ").replace(/[.!?]+$/, "");
+}
+
+function tidy(text: string): string {
+  return text.replace(/\s+/g, " ").replace(/^[\s,]+|[\s,]+$/g, "");
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+// "the groceries task" -> "groceries"
+function taskReference(text: string): string {
+  return tidy(text.replace(/^(?:the|my)\s+/i, "").replace(/\s+(?:task|item)$/i, "").replace(/^["']|["']$/g, ""));
+}
+
+function extract<T>(text: string, pattern: RegExp, read: (match: RegExpMatchArray) => T | undefined): Extracted<T> | undefined {
+  const match = text.match(pattern);
+  if (!match) return undefined;
+  const value = read(match);
+  if (value === undefined) return undefined;
+  return { value, rest: tidy(text.replace(match[0], " ")) };
+}
+
+function extractTags(text: string): Extracted<string[]> {
+  const tags: string[] = [];
+  const rest = text.replace(/(^|\s)[@#]([\w-]+)/g, (_match, space: string, tag: string) => {
+    tags.push(tag.toLowerCase());
+    return space;
+  });
+  return { value: tags, rest: tidy(rest) };
+}
+
+function extractPriority(text: string): Extracted<Priority> | undefined {
+  return extract(text, new RegExp(`\\b(?:with |as )?(?:a )?${PRIORITY} priority\\b`, "i"), match => match[1].toLowerCase() as Priority)
+    ?? extract(text, /\b(?:it's |it is )?urgent(?:ly)?\b/i, () => "high" as const);
+}
+
+function extractRecurrence(text: string): Extracted<RecurrenceRule> | undefined {
+  return extract(text, /\bevery other day\b/i, () => ({ type: "daily" as const, interval: 2 }))
+    ?? extract(text, /\b(?:every day|daily)\b/i, () => ({ type: "daily" as const, interval: 1 }))
+    ?? extract(text, new RegExp(`\\bevery ${WEEKDAY}s?((?:(?:,| and|, and) ${WEEKDAY}s?)*)`, "i"), match => {
+      const days = match[0].toLowerCase().match(new RegExp(WEEKDAY, "g")) as Weekday[];
+      return { type: "weekly" as const, interval: 1, daysOfWeek: days.filter((day, index) => days.indexOf(day) === index) };
+    });
+}
+
+function extractDueDate(text: string, now: Date): Extracted<Date> | undefined {
+  const today = startOfDay(now);
+  const prefix = "(?:(?:due|by|on|for|before) )?";
+
+  return extract(text, new RegExp(`\\b${prefix}(?:the )?day after tomorrow\\b`, "i"), () => addDays(today, 2))
+    ?? extract(text, new RegExp(`\\b${prefix}(today|tonight|tomorrow)\\b`, "i"), match =>
+      match[1].toLowerCase() === "tomorrow" ? addDays(today, 1) : today)
+    ?? extract(text, new RegExp(`\\b(?:(?:due |by |on |before |until )(?:next |this )?|next |this )${WEEKDAY}\\b`, "i"), match =>
+      nextDay(today, weekdays.indexOf(match[1].toLowerCase() as Weekday) as Day))
+    ?? extract(text, new RegExp(`\\b${prefix}next (week|month)\\b`, "i"), match =>
+      match[1].toLowerCase() === "week" ? nextMonday(today) : startOfMonth(addMonths(today, 1)))
+    ?? extract(text, new RegExp(`\\b${prefix}in (\\d+|${Object.keys(NUMBER_WORDS).join("|")}) (day|week|month)s?\\b`, "i"), match => {
+      const count = NUMBER_WORDS[match[1].toLowerCase()] ?? Number(match[1]);
+      const unit = match[2].toLowerCase();
+      return unit === "day" ? addDays(today, count) : unit === "week" ? addWeeks(today, count) : addMonths(today, count);
+    });
+}
+
+// A due date said on its own ("friday", "in 3 days") rather than inside a longer phrase
+function dueDateOnly(text: string, now: Date): Date | undefined {
+  const dueDate = extractDueDate(`due ${text}`, now);
+  return dueDate && !dueDate.rest ? dueDate.value : undefined;
+}
+
+// "this week", "next month", or any single day extractDueDate understands
+function extractDueWindow(text: string, now: Date): Extracted<DueWindow> | undefined {
+  const today = startOfDay(now);
+  const weekOptions = { weekStartsOn: 1 } as const;
+
+  return extract(text, /\b(?:due )?(this|next) (week|month)\b/i, match => {
+    const next = match[1].toLowerCase() === "next";
+    if (match[2].toLowerCase() === "week") {
+      const from = next ? nextMonday(today) : today;
+      return dueWindow(from, endOfWeek(from, weekOptions));
+    }
+    const from = next ? startOfMonth(addMonths(today, 1)) : today;
+    return dueWindow(from, endOfMonth(from));
+  }) ?? dayWindow(extractDueDate(text, now));
+}
+
+function dayWindow(day: Extracted<Date> | undefined): Extracted<DueWindow> | undefined {
+  return day && { value: dueWindow(day.value, day.value), rest: day.rest };
+}
+
+// Whole days from the earlier of the two to the later; a reversed range would fail the task query
+function dueWindow(first: Date, last: Date): DueWindow {
+  const [from, to] = first <= last ? [first, last] : [last, first];
+  return { from: startOfDay(from), to: endOfDay(to) };
+}
+
+// "... to Groceries" / "... on my work list": only a known list, or anything explicitly called a list
+function extractListName(text: string, listNames: string[]): Extracted<string> | undefined {
+  return extract(text, /\s(?:to|on|in|into) (?:my |the )?(.+?)( list)?$/i, match => {
+    const name = tidy(match[1]);
+    const known = listNames.find(list => list.toLowerCase() === name.toLowerCase());
+    return known ?? (match[2] ? capitalize(name) : undefined);
+  });
+}
+
+function parseAddTask(body: string, listNames: string[], now: Date): ParsedAction | null {
+  // "add a step ... to ..." targets an existing task; only the LLM handles those
+  if (/^(?:a |another )?(?:step|checklist item|subtask)\b/i.test(body)) return null;
+
+  let rest = body;
+  const taskData: TaskData = {};
+
+  const tags = extractTags(rest);
+  rest = tags.rest;
+  if (tags.value.length > 0) taskData.tags = tags.value;
+
+  const priority = extractPriority(rest);
+  if (priority) {
+    rest = priority.rest;
+    taskData.priority = priority.value;
+  }
+
+  const recurrence = extractRecurrence(rest);
+  if (recurrence) {
+    rest = recurrence.rest;
+    taskData.recurrence = recurrence.value;
+  }
+
+  const dueDate = extractDueDate(rest, now);
+  if (dueDate) {
+    rest = dueDate.rest;
+    taskData.dueDate = dueDate.value.toISOString();
+  }
+
+  const listName = extractListName(rest, listNames);
+  if (listName) {
+    rest = listName.rest;
+    taskData.listName = listName.value;
+  }
+
+  const title = tidy(rest.replace(/^(?:a |an )?(?:new )?(?:task (?:to |for )?)?(?:to )?/i, "").replace(/^["']|["']$/g, ""));
+  if (!title) return null;
+  taskData.title = capitalize(title);
+
+  return {
+    action: { intent: "add_task", confidence: UNMODELLED.test(title) ? PARTIAL_PARSE : CONFIDENT_PARSE, taskData },
+    response: `Added "${taskData.title}"${taskData.listName ? ` to ${taskData.listName}` : ""}`,
+  };
+}
+
+function priorityResult(reference: string, priority: Priority): ParsedAction | null {
+  const title = taskReference(reference);
+  if (!title) return null;
+  return {
+    action: { intent: "set_priority", confidence: CONFIDENT_PARSE, taskData: { title, priority } },
+    response: `Set "${title}" to ${priority} priority`,
+  };
+}
+
+function completeResult(reference: string): ParsedAction | null {
+  const title = taskReference(reference);
+  if (!title) return null;
+  return {
+    action: {
+      intent: "complete_task",
+      confidence: UNMODELLED.test(title) ? PARTIAL_PARSE : CONFIDENT_PARSE,
+      taskData: { title, completed: true },
+    },
+    response: `Marked "${title}" as done`,
+  };
+}
+
+// A change to an existing task; titles the rules can't fully read still go to the LLM first
+function changeResult(intent: VoiceIntent, reference: string, taskData: TaskData, response: (title: string) => string): ParsedAction | null {
+  const title = taskReference(reference);
+  if (!title) return null;
+  return {
+    action: { intent, confidence: UNMODELLED.test(title) ? PARTIAL_PARSE : CONFIDENT_PARSE, taskData: { title, ...taskData } },
+    response: response(title),
+  };
+}
+
+function rescheduleResult(reference: string, when: string, now: Date): ParsedAction | null {
+  const dueDate = dueDateOnly(when, now);
+  if (!dueDate) return null;
+  return changeResult("set_due_date", reference, { dueDate: dueDate.toISOString() }, title => `Rescheduled "${title}"`);
+}
+
+function moveResult(reference: string, target: string, listNames: string[]): ParsedAction | null {
+  const match = target.match(/^(?:my |the )?(.+?)( list)?$/i);
+  if (!match) return null;
+  const known = listNames.find(list => list.toLowerCase() === match[1].toLowerCase());
+  const listName = known ?? capitalize(match[1]);
+  const result = changeResult("move_to_list", reference, { listName }, title => `Moved "${title}" to ${listName}`);
+  // Unless it's a known list or explicitly called one, "move X to Y" may mean something else entirely
+  if (result && !known && !match[2]) result.action.confidence = PARTIAL_PARSE;
+  return result;
+}
+
+const QUERY_START = /^(?:what(?:'?s| is| are)|what do i have|which tasks (?:are|do i have)|show(?: me)?|list|tell me|read(?: me)?|do i have(?: any)?)\b(.*)$/i;
+// Words a question can contain that don't narrow it down
+const QUERY_FILLER = /\b(?:my|me|the|all|any|anything|of|tasks?|things?|to-?dos?|items?|is|are|due|i|have|do|there|still|now|for|with|on|in)\b/gi;
+
+// "what's due tomorrow", "what are my high priority tasks", "what's left on my Groceries list"
+function parseQuery(text: string, listNames: string[], now: Date): ParsedAction | null {
+  const start = text.match(QUERY_START);
+  if (!start) return null;
+
+  let rest = tidy(start[1]);
+  const query: VoiceQuery = {};
+
+  const tags = extractTags(rest);
+  rest = tags.rest;
+  const tagged = extract(rest, /\b(?:tagged|with the tag) ([\w-]+)/i, match => match[1].toLowerCase());
+  if (tagged) rest = tagged.rest;
+  const tag = tagged?.value ?? tags.value[0];
+  if (tag) query.tag = tag;
+
+  const priority = extractPriority(rest);
+  if (priority) {
+    rest = priority.rest;
+    query.priority = priority.value;
+  }
+
+  const overdue = extract(rest, /\b(?:overdue|late)\b/i, () => true);
+  if (overdue) {
+    rest = overdue.rest;
+    query.dueTo = now.toISOString();
+  } else {
+    const window = extractDueWindow(rest, now);
+    if (window) {
+      rest = window.rest;
+      query.dueFrom = window.value.from.toISOString();
+      query.dueTo = window.value.to.toISOString();
+    }
+  }
+
+  const completed = extract(rest, /\b(?:completed|done|finished)\b/i, () => "completed" as const);
+  const open = extract(rest, /\b(?:open|left|remaining|outstanding|to do|pending)\b/i, () => "open" as const);
+  if (completed) {
+    rest = completed.rest;
+    query.status = completed.value;
+  } else if (open) {
+    rest = open.rest;
+  }
+
+  const listName = extractListName(` ${rest}`, listNames);
+  if (listName) {
+    rest = listName.rest;
+    query.listName = listName.value;
+  }
+
+  // Anything left over is something the rules don't understand
+  if (tidy(rest.replace(QUERY_FILLER, " "))) return null;
+
+  return {
+    action: { intent: "query_tasks", confidence: CONFIDENT_PARSE, query },
+    response: "Here's what I found",
+  };
+}
+
+function parseAction(text: string, listNames: string[], now: Date): ParsedAction | null {
+  let match: RegExpMatchArray | null;
+
+  const query = parseQuery(text, listNames, now);
+  if (query) return query;
+
+  if ((match = text.match(/^(?:reopen|re-open|uncomplete|unmark) (.+)$/i))
+    || (match = text.match(/^mark (.+?) as (?:not done|not complete|not completed|incomplete|undone|open)$/i))) {
+    return changeResult("reopen_task", match[1], { completed: false }, title => `Reopened "${title}"`);
+  }
+  if ((match = text.match(/^(?:delete|remove|get rid of|trash) (.+?)(?: from (?:my )?(?:tasks|to-?do list|to-?dos))?$/i))) {
+    const result = changeResult("delete_task", match[1], {}, title => `Deleted "${title}"`);
+    // "remove milk from Groceries" might mean moving rather than deleting
+    if (result && /\bfrom\b/i.test(match[1])) result.action.confidence = PARTIAL_PARSE;
+    return result;
+  }
+  if ((match = text.match(/^(?:set|change) the due date (?:of|for|on) (.+) to (.+)$/i))
+    || (match = text.match(/^make (.+) due (.+)$/i))) {
+    return rescheduleResult(match[1], match[2], now);
+  }
+  if ((match = text.match(/^(?:reschedule|postpone|push back|push|defer|move) (.+) (?:to|until|till|for) (.+)$/i))) {
+    const reschedule = rescheduleResult(match[1], match[2], now);
+    if (reschedule) return reschedule;
+  }
+  if ((match = text.match(/^(?:move|put) (.+) (?:to|onto|into|on|in) (.+)$/i))) {
+    return moveResult(match[1], match[2], listNames);
+  }
+
+  if ((match = text.match(new RegExp(`^(?:make|set|mark|change) (.+?) (?:as |to )?(?:a )?${PRIORITY} priority(?: (.+))?$`, "i")))) {
+    const priority = match[2].toLowerCase() as Priority;
+    if (!match[3]) return priorityResult(match[1], priority);
+
+    // "make it high priority for Friday" changes two things at once
+    const dueDate = dueDateOnly(match[3].replace(/^(?:for|by|on|due) /i, ""), now);
+    if (!dueDate) return null;
+    return changeResult("update_task", match[1], { priority, dueDate: dueDate.toISOString() }, title => `Updated "${title}"`);
+  }
+  if ((match = text.match(/^(?:prioritize|prioritise) (.+)$/i))) {
+    return priorityResult(match[1], "high");
+  }
+  if ((match = text.match(new RegExp(`^mark (.+?) as ${DONE}$`, "i")))) {
+    return completeResult(match[1]);
+  }
+  if ((match = text.match(/^(?:complete|finish|check off|tick off) (.+)$/i))) {
+    return completeResult(match[1]);
+  }
+  if ((match = text.match(new RegExp(`^(?:i(?:'ve| have)? )?(?:finished|completed|done with) (.+)$`, "i")))) {
+    return completeResult(match[1]);
+  }
+  if ((match = text.match(/^(?:update|change|edit) (.+?) to (.+)$/i))) {
+    const priority = match[2].match(new RegExp(`^(?:a )?${PRIORITY} priority$`, "i"));
+    if (priority) return priorityResult(match[1], priority[1].toLowerCase() as Priority);
+
+    const title = taskReference(match[1]);
+    const description = tidy(match[2]);
+    if (!title || !description) return null;
+    return {
+      action: {
+        intent: "update_task",
+        confidence: UNMODELLED.test(text) ? PARTIAL_PARSE : CONFIDENT_PARSE,
+        taskData: { title, description },
+      },
+      response: `Updated "${title}"`,
+    };
+  }
+  if ((match = text.match(/^(?:please )?(?:add|create|new task|remind me to) (.+)$/i))) {
+    return parseAddTask(match[1], listNames, now);
+  }
+
+  return null;
+}
+
+// Returns null unless every clause of the command follows one of the known phrasings
+export function parseVoiceCommand(transcription: string, listNames: string[] = [], now = new Date()): VoiceCommandResult | null {
+  const clauses = normalize(transcription).split(COMMAND_SEPARATOR).map(tidy).filter(Boolean);
+  const parsed: ParsedAction[] = [];
+
+  for (const clause of clauses) {
+    const action = parseAction(clause, listNames, now);
+    if (!action) return null;
+    parsed.push(action);
+  }
+  if (parsed.length === 0) return null;
+
+  return {
+    response: parsed.map(({ response }) => `${response}.`).join(" "),
+    actions: parsed.map(({ action }) => action),
+  };
+}
@@ -0,0 +1,53 @@
+// Preview-and-confirm for voice commands. Depending on the user's voice settings a command comes back
+// as a plan instead of being applied; the plan waits in the session until POST /api/voice-command/confirm.
+import type { Request } from "express";
+import type { VoiceSettings } from "@shared/schema";
+import { destructiveIntents, type VoiceCommandResult } from "./voice-contract";
+
+// Long enough to read and edit the plan, short enough that a forgotten one isn't confirmed by accident
+const PENDING_PLAN_MAX_AGE_MS = 10 * 60 * 1000;
+
+export interface PendingVoicePlan {
+  voiceCommandId: number;
+  transcription: string;
+  command: VoiceCommandResult;
+  createdAt: number;
+}
+
+declare module "express-session" {
+  interface SessionData {
+    pendingVoicePlan?: PendingVoicePlan;
+  }
+}
+
+// Why the command should be confirmed before it runs, or null to apply it straight away. Questions and
+// commands that weren't understood change nothing, so they never wait.
+export function confirmationReason(command: VoiceCommandResult, settings: VoiceSettings): string | null {
+  const changes = command.actions.filter(action => action.intent !== "query_tasks" && action.intent !== "unknown");
+  if (changes.length === 0) return null;
+
+  if (settings.confirmDestructive && changes.some(action => destructiveIntents.includes(action.intent))) {
+    return "Deleting can't be undone, so please confirm first.";
+  }
+  if (settings.previewCommands && changes.some(action => action.confidence * 100 < settings.autoApplyConfidence)) {
+    return "Please check this before it's applied.";
+  }
+  return null;
+}
+
+export function holdForConfirmation(session: Request["session"], voiceCommandId: number, transcription: string, command: VoiceCommandResult) {
+  session.pendingVoicePlan = { voiceCommandId, transcription, command, createdAt: Date.now() };
+}
+
+export function getPendingPlan(session: Request["session"]): PendingVoicePlan | null {
+  const pending = session.pendingVoicePlan;
+  if (pending && Date.now() - pending.createdAt <= PENDING_PLAN_MAX_AGE_MS) {
+    return pending;
+  }
+  delete session.pendingVoicePlan;
+  return null;
+}
+
+export function clearPendingPlan(session: Request["session"]) {
+  delete session.pendingVoicePlan;
+}
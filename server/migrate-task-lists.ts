@@ -0,0 +1,54 @@
+// Moves tasks off the old free-text tasks.list_name column onto rows of the lists table, so they keep their
+// list when `drizzle-kit push` drops the column. Does nothing once the column is gone; `npm run db:push`
+// runs it before the push.
+import { pool } from "./db";
+
+(async () => {
+  const client = await pool.connect();
+  try {
+    const { rows: columns } = await client.query(
+      "SELECT 1 FROM information_schema.columns WHERE table_schema = current_schema() AND table_name = 'tasks' AND column_name = 'list_name'",
+    );
+    if (columns.length === 0) {
+      console.log("Task lists already migrated");
+      return;
+    }
+
+    await client.query("BEGIN");
+    try {
+      // Only what the backfill needs; drizzle-kit push adds the rest of the lists table afterwards
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS lists (
+          id serial PRIMARY KEY,
+          name text NOT NULL CONSTRAINT lists_name_unique UNIQUE,
+          created_at timestamp DEFAULT now(),
+          updated_at timestamp DEFAULT now()
+        )
+      `);
+      await client.query(
+        "ALTER TABLE tasks ADD COLUMN IF NOT EXISTS list_id integer CONSTRAINT tasks_list_id_lists_id_fk REFERENCES lists(id) ON DELETE SET NULL",
+      );
+
+      const created = await client.query(`
+        INSERT INTO lists (name)
+        SELECT DISTINCT trim(list_name) FROM tasks
+        WHERE trim(coalesce(list_name, '')) <> ''
+          AND NOT EXISTS (SELECT 1 FROM lists WHERE lists.name = trim(tasks.list_name))
+      `);
+      const assigned = await client.query(`
+        UPDATE tasks SET list_id = lists.id
+        FROM lists
+        WHERE lists.name = trim(tasks.list_name) AND tasks.list_id IS NULL
+      `);
+      await client.query("ALTER TABLE tasks DROP COLUMN list_name");
+      await client.query("COMMIT");
+      console.log(`Created ${created.rowCount} lists and assigned ${assigned.rowCount} tasks to them`);
+    } catch (error) {
+      await client.query("ROLLBACK");
+      throw error;
+    }
+  } finally {
+    client.release();
+    await pool.end();
+  }
+})();
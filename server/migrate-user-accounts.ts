@@ -0,0 +1,169 @@
+// Gives data from before user accounts an owner. Tables that predate accounts get their user_id column
+// here, filled in with an initial account, and only then made NOT NULL and given the per-user unique
+// constraints; drizzle-kit push can't do either to tables that already have rows. Does nothing once every
+// table has the column; `npm run db:push` runs it before the push.
+//
+// MIGRATION_USERNAME  account that takes over the existing data; created if it doesn't exist yet
+// MIGRATION_PASSWORD  its password, when it has to be created
+// Either is asked for on the terminal when it isn't set.
+import { createInterface } from "readline/promises";
+import type { PoolClient } from "@neondatabase/serverless";
+import { pool } from "./db";
+import { hashPassword } from "./lib/passwords";
+import { insertUserSchema } from "@shared/schema";
+
+interface OwnedTable {
+  table: string;
+  // Unique before accounts, and what replaces it within one account
+  replacesUnique?: { from?: string; to: string; columns: string }[];
+}
+
+const OWNED_TABLES: OwnedTable[] = [
+  {
+    table: "lists",
+    replacesUnique: [
+      { from: "lists_name_unique", to: "lists_user_name_unique", columns: "user_id, name" },
+      { from: "lists_microsoft_list_id_unique", to: "lists_user_microsoft_list_id_unique", columns: "user_id, microsoft_list_id" },
+    ],
+  },
+  {
+    table: "tasks",
+    replacesUnique: [{ from: "tasks_microsoft_id_unique", to: "tasks_user_microsoft_id_unique", columns: "user_id, microsoft_id" }],
+  },
+  {
+    table: "tags",
+    replacesUnique: [{ from: "tags_name_unique", to: "tags_user_name_unique", columns: "user_id, name" }],
+  },
+  { table: "activities" },
+  { table: "voice_commands" },
+  {
+    table: "microsoft_config",
+    replacesUnique: [{ to: "microsoft_config_user_id_unique", columns: "user_id" }],
+  },
+  {
+    table: "microsoft_sync_state",
+    replacesUnique: [{ from: "microsoft_sync_state_list_id_unique", to: "microsoft_sync_state_user_list_unique", columns: "user_id, list_id" }],
+  },
+];
+
+async function ask(question: string): Promise<string> {
+  if (!process.stdin.isTTY) {
+    throw new Error("Set MIGRATION_USERNAME, and MIGRATION_PASSWORD for a new account, to choose who owns the existing data");
+  }
+  const prompt = createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    return await prompt.question(question);
+  } finally {
+    prompt.close();
+  }
+}
+
+async function tablesWithoutOwner(client: PoolClient): Promise<OwnedTable[]> {
+  const { rows } = await client.query<{ table_name: string }>(
+    `SELECT t.table_name FROM information_schema.tables t
+     WHERE t.table_schema = current_schema() AND t.table_name = ANY($1)
+       AND NOT EXISTS (
+         SELECT 1 FROM information_schema.columns c
+         WHERE c.table_schema = t.table_schema AND c.table_name = t.table_name AND c.column_name = 'user_id'
+       )`,
+    [OWNED_TABLES.map(owned => owned.table)],
+  );
+  return OWNED_TABLES.filter(owned => rows.some(row => row.table_name === owned.table));
+}
+
+async function hasColumns(client: PoolClient, table: string, columns: string[]): Promise<boolean> {
+  const { rows } = await client.query(
+    "SELECT 1 FROM information_schema.columns WHERE table_schema = current_schema() AND table_name = $1 AND column_name = ANY($2)",
+    [table, columns],
+  );
+  return rows.length === columns.length;
+}
+
+async function hasRows(client: PoolClient, tables: OwnedTable[]): Promise<boolean> {
+  for (const { table } of tables) {
+    const { rows } = await client.query(`SELECT 1 FROM ${table} LIMIT 1`);
+    if (rows.length > 0) return true;
+  }
+  return false;
+}
+
+// The account named by MIGRATION_USERNAME, creating it when there's none by that name
+async function initialAccountId(client: PoolClient): Promise<number> {
+  const username = (process.env.MIGRATION_USERNAME || await ask("Username of the account that takes over the existing data: "))
+    .trim()
+    .toLowerCase();
+  const { rows: existing } = await client.query<{ id: number }>("SELECT id FROM users WHERE username = $1", [username]);
+  if (existing.length > 0) {
+    console.log(`Assigning existing data to "${username}"`);
+    return existing[0].id;
+  }
+
+  const password = process.env.MIGRATION_PASSWORD || await ask(`Password for the new account "${username}": `);
+  const account = insertUserSchema.parse({ username, password });
+  const { rows: created } = await client.query<{ id: number }>(
+    "INSERT INTO users (username, password) VALUES ($1, $2) RETURNING id",
+    [account.username, await hashPassword(account.password)],
+  );
+  console.log(`Created account "${account.username}" for the existing data`);
+  return created[0].id;
+}
+
+(async () => {
+  const client = await pool.connect();
+  try {
+    const pending = await tablesWithoutOwner(client);
+    if (pending.length === 0) {
+      console.log("User accounts already migrated");
+      return;
+    }
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS users (
+        id serial PRIMARY KEY,
+        username text NOT NULL CONSTRAINT users_username_unique UNIQUE,
+        password text NOT NULL,
+        created_at timestamp DEFAULT now()
+      )
+    `);
+    // Asked before the transaction starts, so nothing is locked while waiting for an answer
+    const ownerId = await hasRows(client, pending) ? await initialAccountId(client) : null;
+
+    await client.query("BEGIN");
+    try {
+      for (const { table, replacesUnique = [] } of pending) {
+        await client.query(
+          `ALTER TABLE ${table} ADD COLUMN user_id integer CONSTRAINT ${table}_user_id_users_id_fk REFERENCES users(id) ON DELETE CASCADE`,
+        );
+        if (ownerId !== null) {
+          await client.query(`UPDATE ${table} SET user_id = $1`, [ownerId]);
+        }
+        await client.query(`ALTER TABLE ${table} ALTER COLUMN user_id SET NOT NULL`);
+
+        for (const { from, to, columns } of replacesUnique) {
+          if (from) await client.query(`ALTER TABLE ${table} DROP CONSTRAINT IF EXISTS ${from}`);
+          // A column added after this table was created (lists.microsoft_list_id) comes with its constraint
+          // from drizzle-kit push
+          if (!await hasColumns(client, table, columns.split(", "))) continue;
+          await client.query(`ALTER TABLE ${table} ADD CONSTRAINT ${to} UNIQUE (${columns})`);
+        }
+      }
+      // Steps belong to a user through their task, so a Microsoft ID only has to be unique within its task
+      const { rows: stepConstraints } = await client.query(
+        "SELECT 1 FROM pg_constraint WHERE conname = 'checklist_items_microsoft_id_unique'",
+      );
+      if (stepConstraints.length > 0) {
+        await client.query("ALTER TABLE checklist_items DROP CONSTRAINT checklist_items_microsoft_id_unique");
+        await client.query("ALTER TABLE checklist_items ADD CONSTRAINT checklist_items_task_microsoft_id_unique UNIQUE (task_id, microsoft_id)");
+      }
+      await client.query("COMMIT");
+    } catch (error) {
+      await client.query("ROLLBACK");
+      throw error;
+    }
+
+    console.log(`Added user_id to ${pending.map(owned => owned.table).join(", ")}`);
+  } finally {
+    client.release();
+    await pool.end();
+  }
+})();
@@ -1,79 +1,56 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { insertTaskSchema, insertActivitySchema, insertVoiceCommandSchema, microsoftConfig } from "@shared/schema";
-import { processVoiceCommand } from "./lib/openai";
-import { syncWithMicrosoftTodo } from "./lib/microsoft-graph";
-import { db } from "./db";
-import { eq } from "drizzle-orm";
-
-// Fuzzy string matching helper function
-function calculateSimilarity(str1: string, str2: string): number {
-  const s1 = str1.toLowerCase().trim();
-  const s2 = str2.toLowerCase().trim();
-  
-  // Exact match
-  if (s1 === s2) return 1.0;
-  
-  // Contains match
-  if (s1.includes(s2) || s2.includes(s1)) return 0.8;
-  
-  // Word-based similarity
-  const words1 = s1.split(/\s+/);
-  const words2 = s2.split(/\s+/);
-  
-  let matchingWords = 0;
-  for (const word1 of words1) {
-    for (const word2 of words2) {
-      if (word1.includes(word2) || word2.includes(word1) || levenshteinDistance(word1, word2) <= 2) {
-        matchingWords++;
-        break;
-      }
-    }
-  }
-  
-  const wordSimilarity = matchingWords / Math.max(words1.length, words2.length);
-  
-  // Character-based Levenshtein distance
-  const distance = levenshteinDistance(s1, s2);
-  const maxLen = Math.max(s1.length, s2.length);
-  const charSimilarity = 1 - (distance / maxLen);
-  
-  // Return weighted average
-  return (wordSimilarity * 0.7) + (charSimilarity * 0.3);
-}
-
-function levenshteinDistance(str1: string, str2: string): number {
-  const matrix = [];
-  
-  for (let i = 0; i <= str2.length; i++) {
-    matrix[i] = [i];
-  }
-  
-  for (let j = 0; j <= str1.length; j++) {
-    matrix[0][j] = j;
-  }
-  
-  for (let i = 1; i <= str2.length; i++) {
-    for (let j = 1; j <= str1.length; j++) {
-      if (str2.charAt(i - 1) === str1.charAt(j - 1)) {
-        matrix[i][j] = matrix[i - 1][j - 1];
-      } else {
-        matrix[i][j] = Math.min(
-          matrix[i - 1][j - 1] + 1,
-          matrix[i][j - 1] + 1,
-          matrix[i - 1][j] + 1
-        );
-      }
-    }
-  }
-  
-  return matrix[str2.length][str1.length];
-}
+import { storage, InvalidCursorError } from "./storage";
+import {
+  idParamsSchema,
+  createListBodySchema,
+  updateListBodySchema,
+  reorderListsBodySchema,
+  createTaskBodySchema,
+  updateTaskBodySchema,
+  createChecklistItemBodySchema,
+  updateChecklistItemBodySchema,
+  taskIdQuerySchema,
+  activitiesQuerySchema,
+  voiceCommandBodySchema,
+  voiceCommandsQuerySchema,
+  voiceClarificationBodySchema,
+  voiceSettingsBodySchema,
+  microsoftConfigBodySchema,
+  microsoftListsBodySchema,
+  authCallbackQuerySchema,
+  taskQuerySchema,
+  taskSearchQuerySchema,
+  type VoiceCommandResponse,
+} from "@shared/schema";
+import { processVoiceCommand } from "./lib/ai";
+import { LLMOutputError } from "./lib/llm";
+import { executeVoiceActions, previewVoiceActions } from "./lib/voice-actions";
+import { holdForClarification, getPendingVoiceCommand, clearPendingVoiceCommand, chooseCandidate, withChosenTask } from "./lib/voice-clarification";
+import { getVoiceContext, recordVoiceTurn } from "./lib/voice-context";
+import { confirmationReason, holdForConfirmation, getPendingPlan, clearPendingPlan } from "./lib/voice-preview";
+import { voicePlanBodySchema } from "./lib/voice-contract";
+import { recordInterpretation, recordOutcome, recordFailure, cancelledResult } from "./lib/voice-history";
+import {
+  syncTaskChangesToMicrosoft,
+  createChecklistItemWithSync,
+  setTaskTagsWithSync,
+  createTaskInMicrosoft,
+  withRecurrenceDueDate,
+  scheduleNextOccurrence,
+  deleteTaskWithSync,
+} from "./lib/task-operations";
+import { syncWithMicrosoftTodo, updateMicrosoftTask, renameMicrosoftTaskList, updateMicrosoftChecklistItem, deleteMicrosoftChecklistItem, getTaskLists, forgetDefaultList } from "./lib/microsoft-graph";
+import { graphFetch, GRAPH_SCOPES, MicrosoftAuthError } from "./lib/microsoft-token";
+import { validate } from "./lib/validation";
+import { getPriorityInsights } from "./lib/priority-insights";
+import { setupRealtime, broadcast } from "./lib/realtime";
+import { setupAuth, requireAuth, sessionMiddleware } from "./auth";
+import { getRedirectUri, createAuthRequest, buildAuthorizeUrl, consumeAuthRequest, escapeHtml } from "./lib/microsoft-oauth";
 
 // Helper functions for Microsoft configuration
 async function getMicrosoftConfig() {
-  const [config] = await db.select().from(microsoftConfig).limit(1);
+  const config = await storage.getMicrosoftConfig();
   return config || {
     clientId: process.env.MICROSOFT_CLIENT_ID || "",
     tenantId: process.env.MICROSOFT_TENANT_ID || "",
@@ -84,40 +61,196 @@ async function getMicrosoftConfig() {
   };
 }
 
-async function saveMicrosoftConfig(configData: any) {
-  const existingConfig = await db.select().from(microsoftConfig).limit(1);
-  
-  if (existingConfig.length > 0) {
-    const [updated] = await db
-      .update(microsoftConfig)
-      .set({ ...configData, updatedAt: new Date() })
-      .where(eq(microsoftConfig.id, existingConfig[0].id))
-      .returning();
-    return updated;
-  } else {
-    const [created] = await db
-      .insert(microsoftConfig)
-      .values(configData)
-      .returning();
-    return created;
+// Interprets a command and applies it, or holds it for a preview or a question, recording each step on the
+// stored command. Re-runs and corrections come through here as new commands pointing back at the original.
+async function runVoiceCommand(session: Request["session"], transcription: string, rerunOfId?: number): Promise<VoiceCommandResponse> {
+  const voiceCommand = await storage.createVoiceCommand({ transcription, processed: false, rerunOfId });
+  const startedAt = Date.now();
+
+  try {
+    const lists = await storage.getLists();
+    const context = getVoiceContext(session);
+    const interpretation = await processVoiceCommand(transcription, lists.map(list => list.name), context);
+    await recordInterpretation(voiceCommand.id, interpretation, Date.now() - startedAt);
+    const { command } = interpretation;
+
+    const recentTaskIds = context?.recentTasks.map(task => task.id);
+    const reason = confirmationReason(command, await storage.getVoiceSettings());
+    if (reason) {
+      // Nothing is applied until the user confirms the plan, possibly after editing it
+      const actions = await previewVoiceActions(command, recentTaskIds);
+      clearPendingVoiceCommand(session);
+      holdForConfirmation(session, voiceCommand.id, transcription, command);
+      const preview: VoiceCommandResponse = {
+        success: false,
+        response: reason,
+        actions: command.actions.map(action => ({ intent: action.intent, status: "proposed", message: "Waiting for confirmation" })),
+        plan: { reason, actions },
+      };
+      await recordOutcome(voiceCommand.id, preview);
+      return preview;
+    }
+    clearPendingPlan(session);
+
+    const result = await executeVoiceActions(voiceCommand.id, command, { recentTaskIds });
+    holdForClarification(session, voiceCommand.id, command, result);
+    await recordOutcome(voiceCommand.id, result);
+    await recordVoiceTurn(session, transcription, result);
+    return result;
+  } catch (error) {
+    await recordFailure(voiceCommand.id, error, Date.now() - startedAt);
+    throw error;
+  }
+}
+
+function sendVoiceCommandError(res: Response, error: unknown) {
+  console.error("Voice command processing error:", error);
+  if (error instanceof LLMOutputError) {
+    return res.status(502).json({ message: "The assistant's answer couldn't be understood, so nothing was changed. Please try rephrasing." });
   }
+  res.status(500).json({ message: "Failed to process voice command" });
 }
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Register, login, logout and /api/user are open; every other API route needs a session
+  setupAuth(app);
+  app.use("/api", requireAuth);
+
+  // Lists routes
+  app.get("/api/lists", async (req, res) => {
+    try {
+      const lists = await storage.getLists();
+      res.json(lists);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch lists" });
+    }
+  });
+
+  app.post("/api/lists", validate({ body: createListBodySchema }), async (req, res) => {
+    try {
+      const validatedData = req.body;
+
+      if (await storage.getListByName(validatedData.name)) {
+        return res.status(409).json({ message: `A list named "${validatedData.name}" already exists` });
+      }
+
+      const list = await storage.createList(validatedData);
+      res.json(list);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create list" });
+    }
+  });
+
+  // Registered before /api/lists/:id so "reorder" isn't taken for an ID
+  app.post("/api/lists/reorder", validate({ body: reorderListsBodySchema }), async (req, res) => {
+    try {
+      const { ids } = req.body;
+      const lists = await storage.reorderLists(ids);
+      res.json(lists);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to reorder lists" });
+    }
+  });
+
+  app.patch("/api/lists/:id", validate({ params: idParamsSchema, body: updateListBodySchema }), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const updates = req.body;
+
+      if (updates.name) {
+        const sameName = await storage.getListByName(updates.name);
+        if (sameName && sameName.id !== id) {
+          return res.status(409).json({ message: `A list named "${updates.name}" already exists` });
+        }
+      }
+
+      const oldList = await storage.getList(id);
+      const list = await storage.updateList(id, updates);
+
+      if (!list) {
+        return res.status(404).json({ message: "List not found" });
+      }
+
+      // Keep the linked Microsoft To Do list's name in step, otherwise the next sync renames it back
+      if (list.microsoftListId && oldList && oldList.name !== list.name) {
+        await renameMicrosoftTaskList(list.microsoftListId, list.name);
+      }
+
+      res.json(list);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update list" });
+    }
+  });
+
+  app.delete("/api/lists/:id", validate({ params: idParamsSchema }), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const list = await storage.getList(id);
+      const deleted = await storage.deleteList(id);
+
+      if (!deleted) {
+        return res.status(404).json({ message: "List not found" });
+      }
+
+      // Stop syncing the Microsoft list rather than deleting it remotely; the next sync would re-create it here
+      if (list?.microsoftListId) {
+        try {
+          const config = await storage.getMicrosoftConfig();
+          const syncListIds = config?.syncListIds ?? (await getTaskLists()).map(l => l.id);
+          await storage.saveMicrosoftConfig({ syncListIds: syncListIds.filter(listId => listId !== list.microsoftListId) });
+          await storage.saveMicrosoftDeltaLink(list.microsoftListId, null);
+        } catch (error) {
+          console.warn("Could not exclude deleted list from Microsoft To Do sync:", error);
+        }
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete list" });
+    }
+  });
+
   // Tasks routes
-  app.get("/api/tasks", async (req, res) => {
+  app.get("/api/tasks", validate({ query: taskQuerySchema }), async (req, res) => {
     try {
-      const tasks = await storage.getTasks();
-      res.json(tasks);
+      const page = await storage.getTaskPage(req.query);
+      res.json(page);
     } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        return res.status(400).json({ message: error.message });
+      }
       res.status(500).json({ message: "Failed to fetch tasks" });
     }
   });
 
-  app.post("/api/tasks", async (req, res) => {
+  app.get("/api/tasks/search", validate({ query: taskSearchQuerySchema }), async (req, res) => {
+    try {
+      const results = await storage.searchTasks(req.query);
+      res.json(results);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to search tasks" });
+    }
+  });
+
+  // Open-task badges in the list sidebar; the task list itself is paginated
+  app.get("/api/tasks/counts", async (req, res) => {
+    try {
+      const counts = await storage.getOpenTaskCounts();
+      res.json(counts);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to count tasks" });
+    }
+  });
+
+  app.post("/api/tasks", validate({ body: createTaskBodySchema }), async (req, res) => {
     try {
-      const validatedData = insertTaskSchema.parse(req.body);
-      const task = await storage.createTask(validatedData);
+      const { tags: tagNames = [], ...taskData } = req.body;
+
+      const newTask = await storage.createTask(withRecurrenceDueDate(taskData));
+      if (tagNames.length > 0) {
+        await storage.setTaskTags(newTask.id, tagNames);
+      }
+      const task = await createTaskInMicrosoft(newTask);
       
       // Log activity
       await storage.createActivity({
@@ -128,33 +261,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       res.json(task);
     } catch (error) {
-      res.status(400).json({ message: "Invalid task data" });
+      res.status(500).json({ message: "Failed to create task" });
     }
   });
 
-  app.patch("/api/tasks/:id", async (req, res) => {
+  app.patch("/api/tasks/:id", validate({ params: idParamsSchema, body: updateTaskBodySchema }), async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const updates = req.body;
+      const { id } = req.params;
+      const { tags: tagNames, ...body } = req.body;
       const oldTask = await storage.getTask(id);
+      const updates = withRecurrenceDueDate(body, oldTask?.dueDate);
       const task = await storage.updateTask(id, updates);
       
       if (!task) {
         return res.status(404).json({ message: "Task not found" });
       }
 
-      // If this is a Microsoft task and completion status changed, sync back to Microsoft
-      if (task.microsoftId && oldTask && 'completed' in updates && oldTask.completed !== updates.completed) {
-        const { updateMicrosoftTaskStatus } = await import("./lib/microsoft-graph");
-        const syncSuccess = await updateMicrosoftTaskStatus(task.microsoftId, updates.completed);
-        
-        if (syncSuccess) {
-          await storage.createActivity({
-            type: "sync",
-            description: `Synced task status to Microsoft To Do: "${task.title}" ${updates.completed ? 'completed' : 'reopened'}`,
-            metadata: { taskId: task.id, microsoftId: task.microsoftId }
-          });
-        }
+      if (tagNames) {
+        await setTaskTagsWithSync(task, tagNames);
+      }
+
+      // If this is a Microsoft task, push any synced field changes back to Microsoft
+      if (oldTask) {
+        await syncTaskChangesToMicrosoft(oldTask, task);
+        await scheduleNextOccurrence(oldTask, task);
       }
 
       // Log activity
@@ -166,28 +296,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       res.json(task);
     } catch (error) {
-      res.status(400).json({ message: "Failed to update task" });
+      res.status(500).json({ message: "Failed to update task" });
     }
   });
 
-  app.delete("/api/tasks/:id", async (req, res) => {
+  app.delete("/api/tasks/:id", validate({ params: idParamsSchema }), async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
+      const { id } = req.params;
       const task = await storage.getTask(id);
-      const deleted = await storage.deleteTask(id);
       
-      if (!deleted) {
+      if (!task || !await deleteTaskWithSync(task)) {
         return res.status(404).json({ message: "Task not found" });
       }
 
       // Log activity
-      if (task) {
-        await storage.createActivity({
-          type: "task_deleted",
-          description: `Deleted task: "${task.title}"`,
-          metadata: { taskId: id }
-        });
-      }
+      await storage.createActivity({
+        type: "task_deleted",
+        description: `Deleted task: "${task.title}"`,
+        metadata: { taskId: id }
+      });
 
       res.json({ success: true });
     } catch (error) {
@@ -195,113 +322,259 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Voice command processing
-  app.post("/api/voice-command", async (req, res) => {
+  // Tags routes
+  app.get("/api/tags", async (req, res) => {
     try {
-      const { transcription } = req.body;
-      
-      if (!transcription) {
-        return res.status(400).json({ message: "Transcription is required" });
-      }
+      const tags = await storage.getTags();
+      res.json(tags);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch tags" });
+    }
+  });
 
-      // Store voice command
-      const voiceCommand = await storage.createVoiceCommand({
-        transcription,
-        processed: false
-      });
+  app.get("/api/task-tags", validate({ query: taskIdQuerySchema }), async (req, res) => {
+    try {
+      const taskTags = await storage.getTaskTags(req.query.taskId);
+      res.json(taskTags);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch task tags" });
+    }
+  });
 
-      // Process with AI
-      const aiResponse = await processVoiceCommand(transcription);
-      
-      // Update voice command with AI response
-      await storage.markVoiceCommandProcessed(voiceCommand.id);
-
-      // Execute the command based on AI interpretation
-      let result = null;
-      if (aiResponse.intent === "add_task" && aiResponse.taskData) {
-        const task = await storage.createTask({
-          title: aiResponse.taskData.title ?? "Untitled Task",
-          description: aiResponse.taskData.description,
-          priority: aiResponse.taskData.priority || "normal",
-          dueDate: aiResponse.taskData.dueDate ? new Date(aiResponse.taskData.dueDate) : undefined,
-          aiScore: aiResponse.confidence * 100
-        });
-        result = task;
+  app.delete("/api/tags/:id", validate({ params: idParamsSchema }), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const taggedTaskIds = (await storage.getTaskTags()).filter(link => link.tagId === id).map(link => link.taskId);
+      const deleted = await storage.deleteTag(id);
 
-        await storage.createActivity({
-          type: "voice_command",
-          description: `Voice command processed: Added "${task.title}"`,
-          metadata: { voiceCommandId: voiceCommand.id, taskId: task.id }
-        });
-      } else if ((aiResponse.intent === "update_task" || aiResponse.intent === "complete_task") && aiResponse.taskData) {
-        // Find task by title similarity using fuzzy matching
-        const tasks = await storage.getTasks();
-        const searchTitle = aiResponse.taskData?.title || "";
-        
-        let bestMatch = null;
-        let bestSimilarity = 0;
-        
-        for (const task of tasks) {
-          const similarity = calculateSimilarity(task.title, searchTitle);
-          if (similarity > bestSimilarity && similarity > 0.5) { // Minimum 50% similarity
-            bestMatch = task;
-            bestSimilarity = similarity;
-          }
+      if (!deleted) {
+        return res.status(404).json({ message: "Tag not found" });
+      }
+
+      // Drop the category from linked Microsoft To Do tasks too, otherwise the next sync re-creates the tag
+      for (const taskId of taggedTaskIds) {
+        const task = await storage.getTask(taskId);
+        if (task?.microsoftId) {
+          const remaining = await storage.getTagsForTask(taskId);
+          await updateMicrosoftTask(task, { tags: remaining.map(tag => tag.name) });
         }
+      }
 
-        if (bestMatch) {
-          // For complete_task intent, set completed to true
-          const updateData = {
-            title: aiResponse.taskData.title || bestMatch.title,
-            description: aiResponse.taskData.description || bestMatch.description,
-            priority: aiResponse.taskData.priority || bestMatch.priority,
-            completed: aiResponse.intent === "complete_task" ? true : (aiResponse.taskData.completed ?? bestMatch.completed)
-          };
-
-          const oldTask = bestMatch;
-          const updatedTask = await storage.updateTask(bestMatch.id, updateData);
-          result = updatedTask;
-
-          // If this is a Microsoft task and completion status changed, sync back to Microsoft
-          if (updatedTask && bestMatch.microsoftId && oldTask.completed !== updateData.completed) {
-            const { updateMicrosoftTaskStatus } = await import("./lib/microsoft-graph");
-            const syncSuccess = await updateMicrosoftTaskStatus(bestMatch.microsoftId, Boolean(updateData.completed));
-            
-            if (syncSuccess) {
-              await storage.createActivity({
-                type: "sync",
-                description: `Synced task status to Microsoft To Do: "${bestMatch.title}" ${updateData.completed ? 'completed' : 'reopened'}`,
-                metadata: { taskId: bestMatch.id, microsoftId: bestMatch.microsoftId }
-              });
-            }
-          }
-
-          await storage.createActivity({
-            type: "voice_command",
-            description: `Voice command processed: ${aiResponse.intent === "complete_task" ? "Completed" : "Updated"} "${bestMatch.title}" (${Math.round(bestSimilarity * 100)}% match)`,
-            metadata: { voiceCommandId: voiceCommand.id, taskId: bestMatch.id, similarity: bestSimilarity }
-          });
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete tag" });
+    }
+  });
+
+  // Checklist items (task steps) routes
+  app.get("/api/checklist-items", validate({ query: taskIdQuerySchema }), async (req, res) => {
+    try {
+      const items = await storage.getChecklistItems(req.query.taskId);
+      res.json(items);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch checklist items" });
+    }
+  });
+
+  app.post("/api/checklist-items", validate({ body: createChecklistItemBodySchema }), async (req, res) => {
+    try {
+      const { taskId, title } = req.body;
+      const task = await storage.getTask(taskId);
+
+      if (!task) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+
+      const item = await createChecklistItemWithSync(task, title);
+      res.json(item);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create checklist item" });
+    }
+  });
+
+  app.patch("/api/checklist-items/:id", validate({ params: idParamsSchema, body: updateChecklistItemBodySchema }), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const updates = req.body;
+      const oldItem = await storage.getChecklistItem(id);
+      const item = await storage.updateChecklistItem(id, updates);
+
+      if (!item || !oldItem) {
+        return res.status(404).json({ message: "Checklist item not found" });
+      }
+
+      const task = await storage.getTask(item.taskId);
+      if (task?.microsoftId && item.microsoftId) {
+        const changes = {
+          ...(oldItem.title !== item.title ? { title: item.title } : {}),
+          ...(Boolean(oldItem.completed) !== Boolean(item.completed) ? { completed: item.completed } : {}),
+        };
+        if (Object.keys(changes).length > 0) {
+          await updateMicrosoftChecklistItem(task, item, changes);
         }
       }
 
-      res.json({
-        success: true,
-        intent: aiResponse.intent,
-        confidence: aiResponse.confidence,
-        response: aiResponse.response,
-        result
-      });
+      res.json(item);
     } catch (error) {
-      console.error("Voice command processing error:", error);
+      res.status(500).json({ message: "Failed to update checklist item" });
+    }
+  });
+
+  app.delete("/api/checklist-items/:id", validate({ params: idParamsSchema }), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const item = await storage.getChecklistItem(id);
+      const deleted = await storage.deleteChecklistItem(id);
+
+      if (!deleted || !item) {
+        return res.status(404).json({ message: "Checklist item not found" });
+      }
+
+      const task = await storage.getTask(item.taskId);
+      if (task?.microsoftId && item.microsoftId) {
+        await deleteMicrosoftChecklistItem(task, item);
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete checklist item" });
+    }
+  });
+
+  // Voice command processing
+  app.post("/api/voice-command", validate({ body: voiceCommandBodySchema }), async (req, res) => {
+    try {
+      res.json(await runVoiceCommand(req.session, req.body.transcription));
+    } catch (error) {
+      sendVoiceCommandError(res, error);
+    }
+  });
+
+  // Finishes a voice command that came back needing clarification, once the user says which task they meant
+  app.post("/api/voice-command/clarify", validate({ body: voiceClarificationBodySchema }), async (req, res) => {
+    try {
+      const pending = getPendingVoiceCommand(req.session);
+      if (!pending) {
+        return res.status(409).json({ message: "There's no voice command waiting for an answer" });
+      }
+
+      const choice = chooseCandidate(pending, req.body);
+      if (choice === null) {
+        return res.status(422).json({ message: `Say a number from 1 to ${pending.candidates.length}, or pick a task from the list` });
+      }
+
+      if (choice === "cancel") {
+        clearPendingVoiceCommand(req.session);
+        const response = cancelledResult(pending.command.actions);
+        await recordOutcome(pending.voiceCommandId, response);
+        return res.json(response);
+      }
+
+      const command = withChosenTask(pending, choice);
+      const recentTaskIds = getVoiceContext(req.session)?.recentTasks.map(task => task.id);
+      const result = await executeVoiceActions(pending.voiceCommandId, command, { recentTaskIds });
+      holdForClarification(req.session, pending.voiceCommandId, command, result);
+      await recordOutcome(pending.voiceCommandId, result);
+      const chosen = pending.candidates.find(candidate => candidate.taskId === choice);
+      await recordVoiceTurn(req.session, req.body.answer ?? chosen?.title ?? "", result);
+      res.json(result);
+    } catch (error) {
+      console.error("Voice command clarification error:", error);
+      res.status(500).json({ message: "Failed to process voice command" });
+    }
+  });
+
+  // Applies a previewed plan as the user confirmed it; the actions may have been edited
+  app.post("/api/voice-command/confirm", validate({ body: voicePlanBodySchema }), async (req, res) => {
+    try {
+      const pending = getPendingPlan(req.session);
+      if (!pending) {
+        return res.status(409).json({ message: "There's no voice command waiting for confirmation" });
+      }
+      clearPendingPlan(req.session);
+
+      const command = { response: pending.command.response, actions: req.body.actions };
+      const recentTaskIds = getVoiceContext(req.session)?.recentTasks.map(task => task.id);
+      const result = await executeVoiceActions(pending.voiceCommandId, command, { recentTaskIds, describeResults: true });
+      holdForClarification(req.session, pending.voiceCommandId, command, result);
+      await recordOutcome(pending.voiceCommandId, result);
+      await recordVoiceTurn(req.session, pending.transcription, result);
+      res.json(result);
+    } catch (error) {
+      console.error("Voice command confirmation error:", error);
       res.status(500).json({ message: "Failed to process voice command" });
     }
   });
 
+  app.delete("/api/voice-command/plan", async (req, res) => {
+    try {
+      const pending = getPendingPlan(req.session);
+      clearPendingPlan(req.session);
+      if (pending) {
+        await recordOutcome(pending.voiceCommandId, cancelledResult(pending.command.actions));
+      }
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to cancel voice command" });
+    }
+  });
+
+  // Voice command history, newest first, with how each command was understood and what it did
+  app.get("/api/voice-commands", validate({ query: voiceCommandsQuerySchema }), async (req, res) => {
+    try {
+      res.json(await storage.getVoiceCommands(req.query.limit));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch voice commands" });
+    }
+  });
+
+  // Runs a past command again as a new one; the original stays in the history as it was
+  app.post("/api/voice-commands/:id/rerun", validate({ params: idParamsSchema }), async (req, res) => {
+    try {
+      const original = await storage.getVoiceCommand(req.params.id);
+      if (!original) {
+        return res.status(404).json({ message: "Voice command not found" });
+      }
+      res.json(await runVoiceCommand(req.session, original.transcription, original.id));
+    } catch (error) {
+      sendVoiceCommandError(res, error);
+    }
+  });
+
+  // Runs what the user meant to say in place of a misheard or misunderstood command
+  app.post("/api/voice-commands/:id/correct", validate({ params: idParamsSchema, body: voiceCommandBodySchema }), async (req, res) => {
+    try {
+      const original = await storage.getVoiceCommand(req.params.id);
+      if (!original) {
+        return res.status(404).json({ message: "Voice command not found" });
+      }
+      res.json(await runVoiceCommand(req.session, req.body.transcription, original.id));
+    } catch (error) {
+      sendVoiceCommandError(res, error);
+    }
+  });
+
+  // Voice settings routes
+  app.get("/api/voice-settings", async (req, res) => {
+    try {
+      res.json(await storage.getVoiceSettings());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch voice settings" });
+    }
+  });
+
+  app.patch("/api/voice-settings", validate({ body: voiceSettingsBodySchema }), async (req, res) => {
+    try {
+      res.json(await storage.updateVoiceSettings(req.body));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update voice settings" });
+    }
+  });
+
   // Activities route
-  app.get("/api/activities", async (req, res) => {
+  app.get("/api/activities", validate({ query: activitiesQuerySchema }), async (req, res) => {
     try {
-      const limit = req.query.limit ? parseInt(req.query.limit as string) : 10;
-      const activities = await storage.getActivities(limit);
+      const activities = await storage.getActivities(req.query.limit);
       res.json(activities);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch activities" });
@@ -318,6 +591,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         description: `Synced with Microsoft To Do: ${result.syncedCount} tasks`,
         metadata: result
       });
+      broadcast(req.user!.id, { type: "sync_completed", syncedCount: result.syncedCount });
 
       res.json(result);
     } catch (error) {
@@ -329,23 +603,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Priority insights
   app.get("/api/priority-insights", async (req, res) => {
     try {
-      const tasks = await storage.getTasks();
-      const now = new Date();
-      const oneWeekFromNow = new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000);
-
-      const urgent = tasks.filter(t => !t.completed && t.priority === "high").length;
-      const dueSoon = tasks.filter(t => 
-        !t.completed && t.dueDate && t.dueDate <= oneWeekFromNow
-      ).length;
-      const suggested = tasks.filter(t => 
-        !t.completed && (t.aiScore || 0) > 70
-      ).length;
-
-      res.json({
-        urgent,
-        dueSoon,
-        suggested
-      });
+      res.json(await getPriorityInsights());
     } catch (error) {
       res.status(500).json({ message: "Failed to generate priority insights" });
     }
@@ -362,21 +620,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         clientSecret: config.clientSecret ? "configured" : "",
         isConfigured: !!(config.clientId && config.tenantId && config.clientSecret),
         isAuthenticated: !!config.accessToken,
+        redirectUri: getRedirectUri(req),
       });
     } catch (error) {
       res.status(500).json({ message: "Failed to get Microsoft configuration" });
     }
   });
 
-  app.post("/api/microsoft-config", async (req, res) => {
+  app.post("/api/microsoft-config", validate({ body: microsoftConfigBodySchema }), async (req, res) => {
     try {
       const { clientId, tenantId, clientSecret } = req.body;
-      
-      if (!clientId || !tenantId || !clientSecret) {
-        return res.status(400).json({ message: "All fields are required" });
-      }
 
-      await saveMicrosoftConfig({
+      await storage.saveMicrosoftConfig({
         clientId,
         tenantId,
         clientSecret,
@@ -388,6 +643,36 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Microsoft To Do lists and which of them are synced
+  app.get("/api/microsoft-lists", async (req, res) => {
+    try {
+      const [taskLists, config] = await Promise.all([getTaskLists(), storage.getMicrosoftConfig()]);
+
+      res.json(taskLists.map(list => ({
+        id: list.id,
+        displayName: list.displayName,
+        selected: !config?.syncListIds || config.syncListIds.includes(list.id),
+      })));
+    } catch (error) {
+      if (error instanceof MicrosoftAuthError) {
+        return res.status(401).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to fetch Microsoft To Do lists" });
+    }
+  });
+
+  app.post("/api/microsoft-lists", validate({ body: microsoftListsBodySchema }), async (req, res) => {
+    try {
+      const { listIds } = req.body;
+
+      await storage.saveMicrosoftConfig({ syncListIds: listIds });
+
+      res.json({ success: true, message: "Synced lists saved successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to save synced lists" });
+    }
+  });
+
   app.post("/api/microsoft-auth", async (req, res) => {
     try {
       const config = await getMicrosoftConfig();
@@ -396,20 +681,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Microsoft configuration is incomplete" });
       }
 
-      // Generate OAuth URL - Force HTTPS for Replit apps
-      const host = req.get('host');
-      const redirectUri = `https://${host}/auth/callback`;
-      const authUrl = `https://login.microsoftonline.com/${config.tenantId}/oauth2/v2.0/authorize?` +
-        `client_id=${config.clientId}&` +
-        `response_type=code&` +
-        `redirect_uri=${encodeURIComponent(redirectUri)}&` +
-        `scope=https://graph.microsoft.com/Tasks.ReadWrite%20https://graph.microsoft.com/User.Read&` +
-        `response_mode=query&` +
-        `prompt=select_account`;
+      const authRequest = createAuthRequest(req);
+      const authUrl = buildAuthorizeUrl(config.tenantId, config.clientId, authRequest);
 
       res.json({ 
         authUrl,
-        redirectUri,
+        redirectUri: authRequest.redirectUri,
         isMobile: /Mobile|Android|iPhone|iPad/.test(req.get('User-Agent') || ''),
         message: "Please complete authentication" 
       });
@@ -419,17 +696,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // OAuth callback endpoint
-  app.get("/auth/callback", async (req, res) => {
+  // Microsoft redirects the signed-in browser here, so the session says whose account is being connected
+  app.get("/auth/callback", requireAuth, validate({ query: authCallbackQuerySchema }), async (req, res) => {
     try {
-      const { code, error, error_description } = req.query;
+      const { code, state, error, error_description } = req.query;
+      const authRequest = consumeAuthRequest(req, state);
 
       if (error) {
         return res.send(`
           <html>
             <body>
               <h2>Authentication Error</h2>
-              <p>Error: ${error}</p>
-              <p>Description: ${error_description}</p>
+              <p>Error: ${escapeHtml(error)}</p>
+              <p>Description: ${escapeHtml(error_description ?? "")}</p>
               <button onclick="window.close()">Close Window</button>
             </body>
           </html>
@@ -448,12 +727,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
         `);
       }
 
+      // No matching pending request: forged, replayed, expired, or started from another session
+      if (!authRequest) {
+        return res.status(400).send(`
+          <html>
+            <body>
+              <h2>Authentication Error</h2>
+              <p>This sign-in link is invalid or has expired. Please start again from Settings.</p>
+              <button onclick="window.close()">Close Window</button>
+            </body>
+          </html>
+        `);
+      }
+
       const config = await getMicrosoftConfig();
       
       // Exchange code for access token
       const tokenUrl = `https://login.microsoftonline.com/${config.tenantId}/oauth2/v2.0/token`;
-      const redirectUri = `https://${req.get('host')}/auth/callback`;
-      
       const tokenResponse = await fetch(tokenUrl, {
         method: 'POST',
         headers: {
@@ -462,10 +752,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         body: new URLSearchParams({
           client_id: config.clientId!,
           client_secret: config.clientSecret!,
-          code: code as string,
-          redirect_uri: redirectUri,
+          code,
+          redirect_uri: authRequest.redirectUri,
+          code_verifier: authRequest.codeVerifier,
           grant_type: 'authorization_code',
-          scope: 'https://graph.microsoft.com/Tasks.ReadWrite https://graph.microsoft.com/User.Read',
+          scope: GRAPH_SCOPES,
         }),
       });
 
@@ -476,8 +767,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           <html>
             <body>
               <h2>Token Exchange Error</h2>
-              <p>Error: ${tokenData.error}</p>
-              <p>Description: ${tokenData.error_description}</p>
+              <p>Error: ${escapeHtml(String(tokenData.error ?? ""))}</p>
+              <p>Description: ${escapeHtml(String(tokenData.error_description ?? ""))}</p>
               <button onclick="window.close()">Close Window</button>
             </body>
           </html>
@@ -485,12 +776,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Store the access token in database
-      await saveMicrosoftConfig({
+      await storage.saveMicrosoftConfig({
         ...config,
         accessToken: tokenData.access_token,
         refreshToken: tokenData.refresh_token,
         tokenExpiresAt: tokenData.expires_in ? new Date(Date.now() + tokenData.expires_in * 1000) : null,
       });
+      // The new tokens may be for a different Microsoft account
+      forgetDefaultList();
 
       res.send(`
         <html>
@@ -523,32 +816,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/microsoft-test", async (req, res) => {
     try {
-      const config = await getMicrosoftConfig();
-      
-      if (!config.accessToken) {
-        return res.json({ 
-          success: false, 
-          error: "No access token available. Please authenticate first." 
-        });
-      }
-
       // Test the connection by making a real Graph API call
-      const response = await fetch('https://graph.microsoft.com/v1.0/me', {
-        headers: {
-          'Authorization': `Bearer ${config.accessToken}`,
-          'Content-Type': 'application/json'
-        }
-      });
+      const response = await graphFetch('https://graph.microsoft.com/v1.0/me');
 
       if (!response.ok) {
         if (response.status === 401) {
           // Clear invalid token
-          await saveMicrosoftConfig({
-            ...config,
+          await storage.saveMicrosoftConfig({
             accessToken: "",
             refreshToken: null,
             tokenExpiresAt: null,
           });
+          forgetDefaultList();
           return res.json({ 
             success: false, 
             error: "Authentication expired. Please re-authenticate." 
@@ -563,6 +842,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         message: `Successfully connected as ${userData.displayName || userData.userPrincipalName}` 
       });
     } catch (error) {
+      if (error instanceof MicrosoftAuthError) {
+        return res.json({
+          success: false,
+          error: error.message
+        });
+      }
       res.json({ 
         success: false, 
         error: "Connection test failed: " + (error instanceof Error ? error.message : "Unknown error")
@@ -573,12 +858,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/microsoft-logout", async (req, res) => {
     try {
       const config = await getMicrosoftConfig();
-      await saveMicrosoftConfig({
+      await storage.saveMicrosoftConfig({
         ...config,
         accessToken: "",
         refreshToken: null,
         tokenExpiresAt: null,
       });
+      forgetDefaultList();
       res.json({ success: true, message: "Successfully logged out from Microsoft Graph" });
     } catch (error) {
       res.status(500).json({ message: "Failed to logout" });
@@ -586,5 +872,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   const httpServer = createServer(app);
+  setupRealtime(httpServer, sessionMiddleware);
   return httpServer;
 }
@@ -1,97 +1,1251 @@
-import { tasks, activities, voiceCommands, type Task, type InsertTask, type Activity, type InsertActivity, type VoiceCommand, type InsertVoiceCommand } from "@shared/schema";
-import { db } from "./db";
-import { eq, desc } from "drizzle-orm";
+import { users, lists, tasks, checklistItems, tags, taskTags, activities, voiceCommands, voiceSettings, microsoftConfig, microsoftSyncState, type User, type InsertUser, type List, type InsertList, type Task, type InsertTask, type ChecklistItem, type InsertChecklistItem, type Tag, type TaskTag, type TaskQuery, type TaskSort, type TaskPage, type TaskSearchQuery, type TaskSearchResult, type OpenTaskCount, type Activity, type InsertActivity, type VoiceCommand, type InsertVoiceCommand, type UpdateVoiceCommand, type VoiceSettings, type UpdateVoiceSettings, type MicrosoftConfig, type InsertMicrosoftConfig } from "@shared/schema";
+import { db, useMemoryStorage } from "./db";
+import { calculateSimilarity } from "./lib/similarity";
+import { currentUserId } from "./lib/user-context";
+import { encryptSecret, decryptSecret, redactSecrets } from "./lib/secrets";
+import { taskSortValues, compareSortValues, NO_DUE_DATE, NO_LIST_ORDER, type TaskSortValue } from "@shared/task-sort";
+import { eq, desc, asc, sql, inArray, and, or, gte, lte, ilike, type SQL } from "drizzle-orm";
+import { EventEmitter } from "events";
+import { AsyncLocalStorage } from "async_hooks";
+import type { StorageChangeEvent } from "@shared/realtime";
 
+export class InvalidCursorError extends Error {
+  constructor() {
+    super("Invalid pagination cursor");
+    this.name = "InvalidCursorError";
+  }
+}
+
+// Emits "change" (userId, change) after each task, tag or activity write succeeds;
+// server/lib/realtime.ts forwards them to that user's clients
+export const storageEvents = new EventEmitter();
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+interface TransactionState {
+  tx?: Transaction;
+  // Held back until commit, so clients never see writes that get rolled back
+  changes: StorageChangeEvent[];
+  afterCommit: Array<() => Promise<unknown>>;
+}
+
+const transactionContext = new AsyncLocalStorage<TransactionState>();
+
+// Queries inside storage.transaction() go through its connection
+function conn(): typeof db | Transaction {
+  return transactionContext.getStore()?.tx ?? db;
+}
+
+function publishChange(change: StorageChangeEvent) {
+  const transaction = transactionContext.getStore();
+  if (transaction) {
+    transaction.changes.push(change);
+    return;
+  }
+  storageEvents.emit("change", currentUserId(), change);
+}
+
+// Work that can't be rolled back, like Microsoft Graph calls, waits for the surrounding transaction to commit
+// and is dropped if it rolls back. Outside a transaction it runs straight away.
+export async function afterCommit(callback: () => Promise<unknown>): Promise<void> {
+  const transaction = transactionContext.getStore();
+  if (transaction) {
+    transaction.afterCommit.push(callback);
+    return;
+  }
+  await callback();
+}
+
+async function finishTransaction(state: TransactionState) {
+  state.changes.forEach(change => storageEvents.emit("change", currentUserId(), change));
+  for (const callback of state.afterCommit) {
+    try {
+      await callback();
+    } catch (error) {
+      console.error("Post-commit step failed:", error);
+    }
+  }
+}
+
+// Accounts are looked up before anyone is signed in, so these are the only methods not scoped to a user
+export interface IUserStorage {
+  getUser(id: number): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
+  createUser(user: InsertUser): Promise<User>;
+}
+
+// Every method reads and writes only the signed-in user's rows (see runAsUser in ./lib/user-context)
 export interface IStorage {
+  // Lists
+  getLists(): Promise<List[]>;
+  getList(id: number): Promise<List | undefined>;
+  getListByName(name: string): Promise<List | undefined>;
+  getListByMicrosoftId(microsoftListId: string): Promise<List | undefined>;
+  createList(list: InsertList): Promise<List>;
+  updateList(id: number, updates: Partial<InsertList>): Promise<List | undefined>;
+  deleteList(id: number): Promise<boolean>;
+  reorderLists(ids: number[]): Promise<List[]>;
+
   // Tasks
   getTasks(): Promise<Task[]>;
+  getTaskPage(query: TaskQuery): Promise<TaskPage>;
+  searchTasks(query: TaskSearchQuery): Promise<TaskSearchResult[]>;
+  getOpenTaskCounts(): Promise<OpenTaskCount[]>;
   getTask(id: number): Promise<Task | undefined>;
+  getTaskByMicrosoftId(microsoftId: string): Promise<Task | undefined>;
   createTask(task: InsertTask): Promise<Task>;
   updateTask(id: number, updates: Partial<InsertTask>): Promise<Task | undefined>;
   deleteTask(id: number): Promise<boolean>;
-  
+
+  // Checklist Items
+  getChecklistItems(taskId?: number): Promise<ChecklistItem[]>;
+  getChecklistItem(id: number): Promise<ChecklistItem | undefined>;
+  getChecklistItemByMicrosoftId(microsoftId: string): Promise<ChecklistItem | undefined>;
+  createChecklistItem(item: InsertChecklistItem): Promise<ChecklistItem>;
+  updateChecklistItem(id: number, updates: Partial<InsertChecklistItem>): Promise<ChecklistItem | undefined>;
+  deleteChecklistItem(id: number): Promise<boolean>;
+
+  // Tags
+  getTags(): Promise<Tag[]>;
+  getTagByName(name: string): Promise<Tag | undefined>;
+  deleteTag(id: number): Promise<boolean>;
+  getTaskTags(taskId?: number): Promise<TaskTag[]>;
+  getTagsForTask(taskId: number): Promise<Tag[]>;
+  setTaskTags(taskId: number, names: string[]): Promise<Tag[]>;
+
   // Activities
   getActivities(limit?: number): Promise<Activity[]>;
   createActivity(activity: InsertActivity): Promise<Activity>;
-  
+
   // Voice Commands
+  getVoiceCommands(limit?: number): Promise<VoiceCommand[]>;
+  getVoiceCommand(id: number): Promise<VoiceCommand | undefined>;
   createVoiceCommand(command: InsertVoiceCommand): Promise<VoiceCommand>;
   getUnprocessedVoiceCommands(): Promise<VoiceCommand[]>;
-  markVoiceCommandProcessed(id: number): Promise<void>;
+  updateVoiceCommand(id: number, command: UpdateVoiceCommand): Promise<VoiceCommand | undefined>;
+
+  // Voice Settings
+  getVoiceSettings(): Promise<VoiceSettings>;
+  updateVoiceSettings(settings: UpdateVoiceSettings): Promise<VoiceSettings>;
+
+  // Microsoft Config
+  getMicrosoftConfig(): Promise<MicrosoftConfig | undefined>;
+  saveMicrosoftConfig(config: Partial<InsertMicrosoftConfig>): Promise<MicrosoftConfig>;
+  getMicrosoftDeltaLink(listId: string): Promise<string | undefined>;
+  saveMicrosoftDeltaLink(listId: string, deltaLink: string | null): Promise<void>;
+
+  // Runs work all-or-nothing; nested calls join the outer transaction
+  transaction<T>(work: () => Promise<T>): Promise<T>;
 }
 
-export class DatabaseStorage implements IStorage {
+// Every query filters on the signed-in user's ID; rows of other users behave as if they don't exist
+export class DatabaseStorage implements IStorage, IUserStorage {
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await conn().select().from(users).where(eq(users.id, id));
+    return user || undefined;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await conn().select().from(users).where(eq(users.username, username.trim().toLowerCase()));
+    return user || undefined;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await conn()
+      .insert(users)
+      .values({ ...insertUser, username: insertUser.username.trim().toLowerCase() })
+      .returning();
+    return user;
+  }
+
+  async getLists(): Promise<List[]> {
+    return conn().select().from(lists).where(eq(lists.userId, currentUserId())).orderBy(asc(lists.sortOrder), asc(lists.id));
+  }
+
+  async getList(id: number): Promise<List | undefined> {
+    const [list] = await conn().select().from(lists).where(and(eq(lists.userId, currentUserId()), eq(lists.id, id)));
+    return list || undefined;
+  }
+
+  async getListByName(name: string): Promise<List | undefined> {
+    const [list] = await conn()
+      .select()
+      .from(lists)
+      .where(and(eq(lists.userId, currentUserId()), sql`lower(${lists.name}) = ${name.trim().toLowerCase()}`));
+    return list || undefined;
+  }
+
+  async getListByMicrosoftId(microsoftListId: string): Promise<List | undefined> {
+    const [list] = await conn()
+      .select()
+      .from(lists)
+      .where(and(eq(lists.userId, currentUserId()), eq(lists.microsoftListId, microsoftListId)));
+    return list || undefined;
+  }
+
+  async createList(insertList: InsertList): Promise<List> {
+    const userId = currentUserId();
+
+    // New lists go to the bottom unless a position was given
+    const sortOrder = insertList.sortOrder ?? await conn()
+      .select({ max: sql<number>`coalesce(max(${lists.sortOrder}), -1)` })
+      .from(lists)
+      .where(eq(lists.userId, userId))
+      .then(([row]) => Number(row.max) + 1);
+
+    const [list] = await conn()
+      .insert(lists)
+      .values({ ...insertList, sortOrder, userId })
+      .returning();
+    return list;
+  }
+
+  async updateList(id: number, updates: Partial<InsertList>): Promise<List | undefined> {
+    const [list] = await conn()
+      .update(lists)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(lists.userId, currentUserId()), eq(lists.id, id)))
+      .returning();
+    return list || undefined;
+  }
+
+  async deleteList(id: number): Promise<boolean> {
+    // tasks.list_id is ON DELETE SET NULL, so the list's tasks survive without a list
+    const result = await conn().delete(lists).where(and(eq(lists.userId, currentUserId()), eq(lists.id, id)));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async reorderLists(ids: number[]): Promise<List[]> {
+    const userId = currentUserId();
+    await conn().transaction(async (tx) => {
+      for (let index = 0; index < ids.length; index++) {
+        await tx
+          .update(lists)
+          .set({ sortOrder: index, updatedAt: new Date() })
+          .where(and(eq(lists.userId, userId), eq(lists.id, ids[index])));
+      }
+    });
+    return this.getLists();
+  }
+
   async getTasks(): Promise<Task[]> {
-    const result = await db.select().from(tasks).orderBy(desc(tasks.aiScore), desc(tasks.createdAt));
+    const result = await conn()
+      .select()
+      .from(tasks)
+      .where(eq(tasks.userId, currentUserId()))
+      .orderBy(desc(tasks.aiScore), desc(tasks.createdAt));
     return result;
   }
 
+  async getTaskPage(query: TaskQuery): Promise<TaskPage> {
+    const userId = currentUserId();
+    const keys = taskSortKeys[query.sort];
+    const conditions: SQL[] = [eq(tasks.userId, userId)];
+
+    if (query.status !== "all") {
+      conditions.push(sql`coalesce(${tasks.completed}, false) = ${query.status === "completed"}`);
+    }
+    if (query.priority) conditions.push(eq(tasks.priority, query.priority));
+    if (query.listId) conditions.push(eq(tasks.listId, query.listId));
+    if (query.dueFrom) conditions.push(gte(tasks.dueDate, query.dueFrom));
+    if (query.dueTo) conditions.push(lte(tasks.dueDate, query.dueTo));
+    if (query.q) {
+      const pattern = `%${query.q.replace(/[\\%_]/g, "\\$&")}%`;
+      conditions.push(or(ilike(tasks.title, pattern), ilike(tasks.description, pattern))!);
+    }
+    if (query.tag) {
+      conditions.push(inArray(tasks.id, conn()
+        .select({ taskId: taskTags.taskId })
+        .from(taskTags)
+        .innerJoin(tags, eq(taskTags.tagId, tags.id))
+        .where(and(eq(tags.userId, userId), sql`lower(${tags.name}) = ${query.tag.toLowerCase()}`))));
+    }
+    if (query.cursor) {
+      // Keyset pagination: rows strictly after the last one served, in sort-key order
+      const after = decodeCursor(query.cursor, keys.length);
+      conditions.push(or(...keys.map((key, index) => and(
+        ...keys.slice(0, index).map((previous, i) => sql`${previous.column} = ${after[i]}`),
+        key.direction === "asc" ? sql`${key.column} > ${after[index]}` : sql`${key.column} < ${after[index]}`,
+      )))!);
+    }
+
+    const rows = await conn()
+      .select()
+      .from(tasks)
+      .leftJoin(lists, eq(tasks.listId, lists.id))
+      .where(and(...conditions))
+      .orderBy(...keys.map(key => key.direction === "asc" ? asc(key.column) : desc(key.column)))
+      .limit(query.limit + 1);
+
+    const page = rows.slice(0, query.limit);
+    const last = page[page.length - 1];
+    return {
+      tasks: page.map(row => row.tasks),
+      nextCursor: rows.length > query.limit && last
+        ? encodeCursor(keys.map(key => key.value(last.tasks, last.lists?.sortOrder ?? null)))
+        : null,
+    };
+  }
+
+  async searchTasks(query: TaskSearchQuery): Promise<TaskSearchResult[]> {
+    // Same expression as tasks_search_idx, so the GIN index serves the @@ match
+    const document = sql`to_tsvector('english', ${tasks.title} || ' ' || coalesce(${tasks.description}, ''))`;
+    const tsQuery = sql`websearch_to_tsquery('english', ${query.q})`;
+    // word_similarity finds "milk" inside "Buy milk on the way home"; similarity compares whole titles
+    const similarity = sql<number>`greatest(similarity(${tasks.title}, ${query.q}), word_similarity(${query.q}, ${tasks.title}))`;
+    const rank = sql<number>`ts_rank(${document}, ${tsQuery}) + ${similarity}`;
+
+    const conditions: SQL[] = [
+      eq(tasks.userId, currentUserId()),
+      // % and <% are the pg_trgm operators tasks_title_trgm_idx can serve
+      or(sql`${document} @@ ${tsQuery}`, sql`${tasks.title} % ${query.q}`, sql`${query.q} <% ${tasks.title}`)!,
+    ];
+    if (query.status !== "all") {
+      conditions.push(sql`coalesce(${tasks.completed}, false) = ${query.status === "completed"}`);
+    }
+
+    const rows = await conn()
+      .select({ task: tasks, rank, similarity })
+      .from(tasks)
+      .where(and(...conditions))
+      .orderBy(desc(rank), desc(tasks.id))
+      .limit(query.limit);
+
+    return rows.map(row => ({ task: row.task, rank: Number(row.rank), similarity: Number(row.similarity) }));
+  }
+
+  async getOpenTaskCounts(): Promise<OpenTaskCount[]> {
+    const rows = await conn()
+      .select({ listId: tasks.listId, count: sql<number>`count(*)` })
+      .from(tasks)
+      .where(and(eq(tasks.userId, currentUserId()), sql`coalesce(${tasks.completed}, false) = false`))
+      .groupBy(tasks.listId);
+    return rows.map(row => ({ listId: row.listId, count: Number(row.count) }));
+  }
+
   async getTask(id: number): Promise<Task | undefined> {
-    const [task] = await db.select().from(tasks).where(eq(tasks.id, id));
+    const [task] = await conn().select().from(tasks).where(and(eq(tasks.userId, currentUserId()), eq(tasks.id, id)));
+    return task || undefined;
+  }
+
+  async getTaskByMicrosoftId(microsoftId: string): Promise<Task | undefined> {
+    const [task] = await conn()
+      .select()
+      .from(tasks)
+      .where(and(eq(tasks.userId, currentUserId()), eq(tasks.microsoftId, microsoftId)));
     return task || undefined;
   }
 
   async createTask(insertTask: InsertTask): Promise<Task> {
-    const [task] = await db
+    const [task] = await conn()
       .insert(tasks)
-      .values(insertTask)
+      .values({ ...insertTask, userId: currentUserId() })
       .returning();
+    publishChange({ type: "task_created", task });
     return task;
   }
 
   async updateTask(id: number, updates: Partial<InsertTask>): Promise<Task | undefined> {
-    const [task] = await db
+    const [task] = await conn()
       .update(tasks)
       .set({ ...updates, updatedAt: new Date() })
-      .where(eq(tasks.id, id))
+      .where(and(eq(tasks.userId, currentUserId()), eq(tasks.id, id)))
       .returning();
+    if (task) {
+      publishChange({ type: "task_updated", task });
+    }
     return task || undefined;
   }
 
   async deleteTask(id: number): Promise<boolean> {
-    const result = await db.delete(tasks).where(eq(tasks.id, id));
-    return result.rowCount > 0;
+    const result = await conn().delete(tasks).where(and(eq(tasks.userId, currentUserId()), eq(tasks.id, id)));
+    const deleted = (result.rowCount ?? 0) > 0;
+    if (deleted) {
+      publishChange({ type: "task_deleted", taskId: id });
+    }
+    return deleted;
+  }
+
+  async getChecklistItems(taskId?: number): Promise<ChecklistItem[]> {
+    const conditions = [inArray(checklistItems.taskId, ownTaskIds())];
+    if (taskId !== undefined) conditions.push(eq(checklistItems.taskId, taskId));
+
+    return conn()
+      .select()
+      .from(checklistItems)
+      .where(and(...conditions))
+      .orderBy(asc(checklistItems.sortOrder), asc(checklistItems.id));
+  }
+
+  async getChecklistItem(id: number): Promise<ChecklistItem | undefined> {
+    const [item] = await conn()
+      .select()
+      .from(checklistItems)
+      .where(and(inArray(checklistItems.taskId, ownTaskIds()), eq(checklistItems.id, id)));
+    return item || undefined;
+  }
+
+  async getChecklistItemByMicrosoftId(microsoftId: string): Promise<ChecklistItem | undefined> {
+    const [item] = await conn()
+      .select()
+      .from(checklistItems)
+      .where(and(inArray(checklistItems.taskId, ownTaskIds()), eq(checklistItems.microsoftId, microsoftId)));
+    return item || undefined;
+  }
+
+  async createChecklistItem(insertItem: InsertChecklistItem): Promise<ChecklistItem> {
+    if (!await this.getTask(insertItem.taskId)) {
+      throw new Error(`Task ${insertItem.taskId} does not exist`);
+    }
+
+    // New steps go to the bottom of their task unless a position was given
+    const sortOrder = insertItem.sortOrder ?? await conn()
+      .select({ max: sql<number>`coalesce(max(${checklistItems.sortOrder}), -1)` })
+      .from(checklistItems)
+      .where(eq(checklistItems.taskId, insertItem.taskId))
+      .then(([row]) => Number(row.max) + 1);
+
+    const [item] = await conn()
+      .insert(checklistItems)
+      .values({ ...insertItem, sortOrder })
+      .returning();
+    return item;
+  }
+
+  async updateChecklistItem(id: number, updates: Partial<InsertChecklistItem>): Promise<ChecklistItem | undefined> {
+    const [item] = await conn()
+      .update(checklistItems)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(inArray(checklistItems.taskId, ownTaskIds()), eq(checklistItems.id, id)))
+      .returning();
+    return item || undefined;
+  }
+
+  async deleteChecklistItem(id: number): Promise<boolean> {
+    const result = await conn()
+      .delete(checklistItems)
+      .where(and(inArray(checklistItems.taskId, ownTaskIds()), eq(checklistItems.id, id)));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async getTags(): Promise<Tag[]> {
+    return conn().select().from(tags).where(eq(tags.userId, currentUserId())).orderBy(asc(tags.name));
+  }
+
+  async getTagByName(name: string): Promise<Tag | undefined> {
+    const [tag] = await conn()
+      .select()
+      .from(tags)
+      .where(and(eq(tags.userId, currentUserId()), sql`lower(${tags.name}) = ${name.trim().toLowerCase()}`));
+    return tag || undefined;
+  }
+
+  async deleteTag(id: number): Promise<boolean> {
+    // task_tags.tag_id is ON DELETE CASCADE, so the tag just drops off its tasks
+    const result = await conn().delete(tags).where(and(eq(tags.userId, currentUserId()), eq(tags.id, id)));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async getTaskTags(taskId?: number): Promise<TaskTag[]> {
+    const conditions = [inArray(taskTags.taskId, ownTaskIds())];
+    if (taskId !== undefined) conditions.push(eq(taskTags.taskId, taskId));
+
+    return conn().select().from(taskTags).where(and(...conditions));
+  }
+
+  async getTagsForTask(taskId: number): Promise<Tag[]> {
+    return conn()
+      .select({ id: tags.id, userId: tags.userId, name: tags.name, color: tags.color, createdAt: tags.createdAt })
+      .from(taskTags)
+      .innerJoin(tags, eq(taskTags.tagId, tags.id))
+      .where(and(eq(tags.userId, currentUserId()), eq(taskTags.taskId, taskId)))
+      .orderBy(asc(tags.name));
+  }
+
+  async setTaskTags(taskId: number, names: string[]): Promise<Tag[]> {
+    const userId = currentUserId();
+    if (!await this.getTask(taskId)) {
+      throw new Error(`Task ${taskId} does not exist`);
+    }
+
+    await conn().transaction(async (tx) => {
+      const tagIds: number[] = [];
+
+      for (const name of uniqueTagNames(names)) {
+        const [existing] = await tx
+          .select()
+          .from(tags)
+          .where(and(eq(tags.userId, userId), sql`lower(${tags.name}) = ${name.toLowerCase()}`));
+        const tag = existing ?? (await tx.insert(tags).values({ name, userId }).returning())[0];
+        tagIds.push(tag.id);
+      }
+
+      await tx.delete(taskTags).where(eq(taskTags.taskId, taskId));
+      if (tagIds.length > 0) {
+        await tx.insert(taskTags).values(tagIds.map(tagId => ({ taskId, tagId })));
+      }
+
+      // Retagging is an edit; sync compares updatedAt to decide whether the local or remote copy wins
+      await tx.update(tasks).set({ updatedAt: new Date() }).where(eq(tasks.id, taskId));
+    });
+
+    const tagsForTask = await this.getTagsForTask(taskId);
+    publishChange({ type: "task_tags_updated", taskId, tags: tagsForTask });
+    return tagsForTask;
   }
 
   async getActivities(limit = 10): Promise<Activity[]> {
-    const result = await db
+    const result = await conn()
       .select()
       .from(activities)
+      .where(eq(activities.userId, currentUserId()))
       .orderBy(desc(activities.createdAt))
       .limit(limit);
     return result;
   }
 
   async createActivity(insertActivity: InsertActivity): Promise<Activity> {
-    const [activity] = await db
+    const [activity] = await conn()
       .insert(activities)
-      .values(insertActivity)
+      .values({ ...insertActivity, metadata: redactSecrets(insertActivity.metadata), userId: currentUserId() })
       .returning();
+    publishChange({ type: "activity_created", activity });
     return activity;
   }
 
+  async getVoiceCommands(limit = 25): Promise<VoiceCommand[]> {
+    return await conn()
+      .select()
+      .from(voiceCommands)
+      .where(eq(voiceCommands.userId, currentUserId()))
+      .orderBy(desc(voiceCommands.createdAt), desc(voiceCommands.id))
+      .limit(limit);
+  }
+
+  async getVoiceCommand(id: number): Promise<VoiceCommand | undefined> {
+    const [command] = await conn()
+      .select()
+      .from(voiceCommands)
+      .where(and(eq(voiceCommands.userId, currentUserId()), eq(voiceCommands.id, id)));
+    return command || undefined;
+  }
+
   async createVoiceCommand(insertCommand: InsertVoiceCommand): Promise<VoiceCommand> {
-    const [command] = await db
+    const [command] = await conn()
       .insert(voiceCommands)
-      .values(insertCommand)
+      .values({ ...insertCommand, userId: currentUserId() })
       .returning();
     return command;
   }
 
   async getUnprocessedVoiceCommands(): Promise<VoiceCommand[]> {
-    const result = await db
+    const result = await conn()
       .select()
       .from(voiceCommands)
-      .where(eq(voiceCommands.processed, false));
+      .where(and(eq(voiceCommands.userId, currentUserId()), eq(voiceCommands.processed, false)));
     return result;
   }
 
-  async markVoiceCommandProcessed(id: number): Promise<void> {
-    await db
+  async updateVoiceCommand(id: number, updateCommand: UpdateVoiceCommand): Promise<VoiceCommand | undefined> {
+    const [command] = await conn()
       .update(voiceCommands)
-      .set({ processed: true })
-      .where(eq(voiceCommands.id, id));
+      .set(updateCommand)
+      .where(and(eq(voiceCommands.userId, currentUserId()), eq(voiceCommands.id, id)))
+      .returning();
+    return command || undefined;
+  }
+
+  async getVoiceSettings(): Promise<VoiceSettings> {
+    const userId = currentUserId();
+    // Creates the defaults row the first time; a concurrent first request just finds it
+    await conn().insert(voiceSettings).values({ userId }).onConflictDoNothing({ target: voiceSettings.userId });
+    const [settings] = await conn().select().from(voiceSettings).where(eq(voiceSettings.userId, userId));
+    return settings;
+  }
+
+  async updateVoiceSettings(settingsData: UpdateVoiceSettings): Promise<VoiceSettings> {
+    await this.getVoiceSettings();
+    const [settings] = await conn()
+      .update(voiceSettings)
+      .set({ ...settingsData, updatedAt: new Date() })
+      .where(eq(voiceSettings.userId, currentUserId()))
+      .returning();
+    return settings;
+  }
+
+  async getMicrosoftConfig(): Promise<MicrosoftConfig | undefined> {
+    const [config] = await conn().select().from(microsoftConfig).where(eq(microsoftConfig.userId, currentUserId()));
+    return config ? openMicrosoftConfig(config) : undefined;
+  }
+
+  async saveMicrosoftConfig(configData: Partial<InsertMicrosoftConfig>): Promise<MicrosoftConfig> {
+    const existing = await this.getMicrosoftConfig();
+    const sealed = sealMicrosoftConfig(configData);
+
+    if (existing) {
+      const [updated] = await conn()
+        .update(microsoftConfig)
+        .set({ ...sealed, updatedAt: new Date() })
+        .where(eq(microsoftConfig.id, existing.id))
+        .returning();
+      return openMicrosoftConfig(updated);
+    }
+
+    const [created] = await conn()
+      .insert(microsoftConfig)
+      .values({ ...sealed, userId: currentUserId() })
+      .returning();
+    return openMicrosoftConfig(created);
+  }
+
+  async getMicrosoftDeltaLink(listId: string): Promise<string | undefined> {
+    const [state] = await conn()
+      .select()
+      .from(microsoftSyncState)
+      .where(and(eq(microsoftSyncState.userId, currentUserId()), eq(microsoftSyncState.listId, listId)));
+    return state?.deltaLink || undefined;
+  }
+
+  async saveMicrosoftDeltaLink(listId: string, deltaLink: string | null): Promise<void> {
+    const lastSyncedAt = new Date();
+    await conn()
+      .insert(microsoftSyncState)
+      .values({ userId: currentUserId(), listId, deltaLink, lastSyncedAt })
+      .onConflictDoUpdate({
+        target: [microsoftSyncState.userId, microsoftSyncState.listId],
+        set: { deltaLink, lastSyncedAt },
+      });
+  }
+
+  async transaction<T>(work: () => Promise<T>): Promise<T> {
+    if (transactionContext.getStore()) return work();
+
+    const state: TransactionState = { changes: [], afterCommit: [] };
+    const result = await db.transaction(tx => {
+      state.tx = tx;
+      return transactionContext.run(state, work);
+    });
+    await finishTransaction(state);
+    return result;
   }
 }
 
-export const storage = new DatabaseStorage();
+// Keeps everything in process memory; data is lost on restart.
+// Used for local development, demos and tests that run without Postgres.
+export class MemStorage implements IStorage, IUserStorage {
+  private users = new Map<number, User>();
+  private lists = new Map<number, List>();
+  private tasks = new Map<number, Task>();
+  private checklistItems = new Map<number, ChecklistItem>();
+  private tags = new Map<number, Tag>();
+  private taskTags: TaskTag[] = [];
+  private activities = new Map<number, Activity>();
+  private voiceCommands = new Map<number, VoiceCommand>();
+  private voiceSettings = new Map<number, VoiceSettings>();
+  private microsoftConfigs = new Map<number, MicrosoftConfig>();
+  // Keyed by `${userId}:${listId}`
+  private deltaLinks = new Map<string, string | null>();
+  private currentAccountId = 1;
+  private currentListId = 1;
+  private currentTaskId = 1;
+  private currentChecklistItemId = 1;
+  private currentTagId = 1;
+  private currentActivityId = 1;
+  private currentVoiceCommandId = 1;
+  private currentVoiceSettingsId = 1;
+  private currentMicrosoftConfigId = 1;
+
+  // The signed-in user's rows of one table; every read goes through this
+  private own<T extends { userId: number }>(rows: Map<number, T>): T[] {
+    const userId = currentUserId();
+    return Array.from(rows.values()).filter(row => row.userId === userId);
+  }
+
+  private ownTask(id: number): Task | undefined {
+    const task = this.tasks.get(id);
+    return task && task.userId === currentUserId() ? task : undefined;
+  }
+
+  private ownTaskIds(): Set<number> {
+    return new Set(this.own(this.tasks).map(task => task.id));
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const needle = username.trim().toLowerCase();
+    return Array.from(this.users.values()).find(u => u.username === needle);
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    if (await this.getUserByUsername(insertUser.username)) {
+      throw new Error(`User "${insertUser.username}" already exists`);
+    }
+
+    const user: User = {
+      id: this.currentAccountId++,
+      username: insertUser.username.trim().toLowerCase(),
+      password: insertUser.password,
+      createdAt: new Date(),
+    };
+    this.users.set(user.id, user);
+    return user;
+  }
+
+  async getLists(): Promise<List[]> {
+    return this.own(this.lists).sort(
+      (a, b) => (a.sortOrder ?? 0) - (b.sortOrder ?? 0) || a.id - b.id,
+    );
+  }
+
+  async getList(id: number): Promise<List | undefined> {
+    return this.own(this.lists).find(l => l.id === id);
+  }
+
+  async getListByName(name: string): Promise<List | undefined> {
+    const needle = name.trim().toLowerCase();
+    return this.own(this.lists).find(l => l.name.toLowerCase() === needle);
+  }
+
+  async getListByMicrosoftId(microsoftListId: string): Promise<List | undefined> {
+    return this.own(this.lists).find(l => l.microsoftListId === microsoftListId);
+  }
+
+  async createList(insertList: InsertList): Promise<List> {
+    if (await this.getListByName(insertList.name)) {
+      throw new Error(`List "${insertList.name}" already exists`);
+    }
+
+    const now = new Date();
+    const existing = this.own(this.lists);
+    const list: List = {
+      id: this.currentListId++,
+      userId: currentUserId(),
+      name: insertList.name,
+      color: insertList.color ?? null,
+      icon: insertList.icon ?? null,
+      sortOrder: insertList.sortOrder ?? Math.max(-1, ...existing.map(l => l.sortOrder ?? 0)) + 1,
+      microsoftListId: insertList.microsoftListId ?? null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.lists.set(list.id, list);
+    return list;
+  }
+
+  async updateList(id: number, updates: Partial<InsertList>): Promise<List | undefined> {
+    const existing = await this.getList(id);
+    if (!existing) return undefined;
+
+    const list: List = { ...existing, ...stripUndefined(updates), updatedAt: new Date() };
+    this.lists.set(id, list);
+    return list;
+  }
+
+  async deleteList(id: number): Promise<boolean> {
+    if (!await this.getList(id)) return false;
+    this.lists.delete(id);
+
+    // Mirror ON DELETE SET NULL
+    for (const task of this.own(this.tasks)) {
+      if (task.listId === id) {
+        this.tasks.set(task.id, { ...task, listId: null });
+      }
+    }
+    return true;
+  }
+
+  async reorderLists(ids: number[]): Promise<List[]> {
+    const lists = await this.getLists();
+    ids.forEach((id, index) => {
+      const list = lists.find(l => l.id === id);
+      if (list) {
+        this.lists.set(id, { ...list, sortOrder: index, updatedAt: new Date() });
+      }
+    });
+    return this.getLists();
+  }
+
+  async getTasks(): Promise<Task[]> {
+    return this.own(this.tasks).sort(
+      (a, b) =>
+        (b.aiScore ?? 0) - (a.aiScore ?? 0) ||
+        (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0),
+    );
+  }
+
+  async getTaskPage(query: TaskQuery): Promise<TaskPage> {
+    const keys = taskSortKeys[query.sort];
+    const after = query.cursor ? decodeCursor(query.cursor, keys.length) : null;
+    const tag = query.tag ? await this.getTagByName(query.tag) : undefined;
+    const needle = query.q?.toLowerCase();
+
+    if (query.tag && !tag) {
+      return { tasks: [], nextCursor: null };
+    }
+
+    const keyed = this.own(this.tasks)
+      .filter(task =>
+        (query.status === "all" || Boolean(task.completed) === (query.status === "completed")) &&
+        (!query.priority || task.priority === query.priority) &&
+        (!query.listId || task.listId === query.listId) &&
+        (!query.dueFrom || (task.dueDate !== null && task.dueDate >= query.dueFrom)) &&
+        (!query.dueTo || (task.dueDate !== null && task.dueDate <= query.dueTo)) &&
+        (!needle || task.title.toLowerCase().includes(needle) || (task.description ?? "").toLowerCase().includes(needle)) &&
+        (!tag || this.taskTags.some(link => link.taskId === task.id && link.tagId === tag.id)))
+      .map(task => {
+        const listOrder = task.listId !== null ? this.lists.get(task.listId)?.sortOrder ?? null : null;
+        return { task, values: keys.map(key => key.value(task, listOrder)) };
+      })
+      .filter(row => !after || compareSortValues(keys, row.values, after) > 0)
+      .sort((a, b) => compareSortValues(keys, a.values, b.values));
+
+    const page = keyed.slice(0, query.limit);
+    return {
+      tasks: page.map(row => row.task),
+      nextCursor: keyed.length > query.limit ? encodeCursor(page[page.length - 1].values) : null,
+    };
+  }
+
+  // No Postgres here: score titles with the JS fuzzy matcher and match descriptions by their words
+  async searchTasks(query: TaskSearchQuery): Promise<TaskSearchResult[]> {
+    const words = query.q.toLowerCase().split(/\s+/);
+
+    return this.own(this.tasks)
+      .filter(task => query.status === "all" || Boolean(task.completed) === (query.status === "completed"))
+      .map(task => {
+        const similarity = calculateSimilarity(task.title, query.q);
+        const text = `${task.title} ${task.description ?? ""}`.toLowerCase();
+        const textMatch = words.every(word => text.includes(word));
+        return { task, similarity, rank: similarity + (textMatch ? 0.1 : 0), matched: textMatch || similarity > 0.5 };
+      })
+      .filter(result => result.matched)
+      .sort((a, b) => b.rank - a.rank || b.task.id - a.task.id)
+      .slice(0, query.limit)
+      .map(({ task, rank, similarity }) => ({ task, rank, similarity }));
+  }
+
+  async getOpenTaskCounts(): Promise<OpenTaskCount[]> {
+    const counts = new Map<number | null, number>();
+    this.own(this.tasks)
+      .filter(task => !task.completed)
+      .forEach(task => counts.set(task.listId, (counts.get(task.listId) ?? 0) + 1));
+    return Array.from(counts.keys()).map(listId => ({ listId, count: counts.get(listId)! }));
+  }
+
+  async getTask(id: number): Promise<Task | undefined> {
+    return this.ownTask(id);
+  }
+
+  async getTaskByMicrosoftId(microsoftId: string): Promise<Task | undefined> {
+    return this.own(this.tasks).find(t => t.microsoftId === microsoftId);
+  }
+
+  async createTask(insertTask: InsertTask): Promise<Task> {
+    if (insertTask.microsoftId && await this.getTaskByMicrosoftId(insertTask.microsoftId)) {
+      throw new Error(`Task with microsoftId ${insertTask.microsoftId} already exists`);
+    }
+
+    const now = new Date();
+    const task: Task = {
+      id: this.currentTaskId++,
+      userId: currentUserId(),
+      microsoftId: insertTask.microsoftId ?? null,
+      microsoftListId: insertTask.microsoftListId ?? null,
+      title: insertTask.title,
+      description: insertTask.description ?? null,
+      completed: insertTask.completed ?? false,
+      priority: insertTask.priority ?? "normal",
+      dueDate: insertTask.dueDate ?? null,
+      listId: insertTask.listId ?? null,
+      recurrence: insertTask.recurrence ?? null,
+      aiScore: insertTask.aiScore ?? 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.tasks.set(task.id, task);
+    publishChange({ type: "task_created", task });
+    return task;
+  }
+
+  async updateTask(id: number, updates: Partial<InsertTask>): Promise<Task | undefined> {
+    const existing = this.ownTask(id);
+    if (!existing) return undefined;
+
+    const task: Task = { ...existing, ...stripUndefined(updates), updatedAt: new Date() };
+    this.tasks.set(id, task);
+    publishChange({ type: "task_updated", task });
+    return task;
+  }
+
+  async deleteTask(id: number): Promise<boolean> {
+    if (!this.ownTask(id)) return false;
+    this.tasks.delete(id);
+
+    // Mirror ON DELETE CASCADE
+    for (const item of Array.from(this.checklistItems.values())) {
+      if (item.taskId === id) {
+        this.checklistItems.delete(item.id);
+      }
+    }
+    this.taskTags = this.taskTags.filter(link => link.taskId !== id);
+    publishChange({ type: "task_deleted", taskId: id });
+    return true;
+  }
+
+  async getChecklistItems(taskId?: number): Promise<ChecklistItem[]> {
+    const taskIds = this.ownTaskIds();
+    return Array.from(this.checklistItems.values())
+      .filter(item => taskIds.has(item.taskId) && (taskId === undefined || item.taskId === taskId))
+      .sort((a, b) => (a.sortOrder ?? 0) - (b.sortOrder ?? 0) || a.id - b.id);
+  }
+
+  async getChecklistItem(id: number): Promise<ChecklistItem | undefined> {
+    const item = this.checklistItems.get(id);
+    return item && this.ownTask(item.taskId) ? item : undefined;
+  }
+
+  async getChecklistItemByMicrosoftId(microsoftId: string): Promise<ChecklistItem | undefined> {
+    return (await this.getChecklistItems()).find(item => item.microsoftId === microsoftId);
+  }
+
+  async createChecklistItem(insertItem: InsertChecklistItem): Promise<ChecklistItem> {
+    if (!this.ownTask(insertItem.taskId)) {
+      throw new Error(`Task ${insertItem.taskId} does not exist`);
+    }
+
+    const now = new Date();
+    const siblings = await this.getChecklistItems(insertItem.taskId);
+    const item: ChecklistItem = {
+      id: this.currentChecklistItemId++,
+      taskId: insertItem.taskId,
+      microsoftId: insertItem.microsoftId ?? null,
+      title: insertItem.title,
+      completed: insertItem.completed ?? false,
+      sortOrder: insertItem.sortOrder ?? Math.max(-1, ...siblings.map(i => i.sortOrder ?? 0)) + 1,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.checklistItems.set(item.id, item);
+    return item;
+  }
+
+  async updateChecklistItem(id: number, updates: Partial<InsertChecklistItem>): Promise<ChecklistItem | undefined> {
+    const existing = await this.getChecklistItem(id);
+    if (!existing) return undefined;
+
+    const item: ChecklistItem = { ...existing, ...stripUndefined(updates), updatedAt: new Date() };
+    this.checklistItems.set(id, item);
+    return item;
+  }
+
+  async deleteChecklistItem(id: number): Promise<boolean> {
+    return !!await this.getChecklistItem(id) && this.checklistItems.delete(id);
+  }
+
+  async getTags(): Promise<Tag[]> {
+    return this.own(this.tags).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getTagByName(name: string): Promise<Tag | undefined> {
+    const needle = name.trim().toLowerCase();
+    return this.own(this.tags).find(t => t.name.toLowerCase() === needle);
+  }
+
+  async deleteTag(id: number): Promise<boolean> {
+    if (!this.own(this.tags).some(t => t.id === id)) return false;
+    this.tags.delete(id);
+
+    // Mirror ON DELETE CASCADE
+    this.taskTags = this.taskTags.filter(link => link.tagId !== id);
+    return true;
+  }
+
+  async getTaskTags(taskId?: number): Promise<TaskTag[]> {
+    const taskIds = this.ownTaskIds();
+    return this.taskTags.filter(link => taskIds.has(link.taskId) && (taskId === undefined || link.taskId === taskId));
+  }
+
+  async getTagsForTask(taskId: number): Promise<Tag[]> {
+    const tagIds = this.taskTags.filter(link => link.taskId === taskId).map(link => link.tagId);
+    return (await this.getTags()).filter(tag => tagIds.includes(tag.id));
+  }
+
+  async setTaskTags(taskId: number, names: string[]): Promise<Tag[]> {
+    const task = this.ownTask(taskId);
+    if (!task) {
+      throw new Error(`Task ${taskId} does not exist`);
+    }
+
+    const tagIds: number[] = [];
+    for (const name of uniqueTagNames(names)) {
+      let tag = await this.getTagByName(name);
+      if (!tag) {
+        tag = { id: this.currentTagId++, userId: task.userId, name, color: null, createdAt: new Date() };
+        this.tags.set(tag.id, tag);
+      }
+      tagIds.push(tag.id);
+    }
+
+    this.taskTags = this.taskTags
+      .filter(link => link.taskId !== taskId)
+      .concat(tagIds.map(tagId => ({ taskId, tagId })));
+    this.tasks.set(taskId, { ...task, updatedAt: new Date() });
+
+    const tagsForTask = await this.getTagsForTask(taskId);
+    publishChange({ type: "task_tags_updated", taskId, tags: tagsForTask });
+    return tagsForTask;
+  }
+
+  async getActivities(limit = 10): Promise<Activity[]> {
+    return this.own(this.activities)
+      .sort((a, b) => b.id - a.id)
+      .slice(0, limit);
+  }
+
+  async createActivity(insertActivity: InsertActivity): Promise<Activity> {
+    const activity: Activity = {
+      id: this.currentActivityId++,
+      userId: currentUserId(),
+      type: insertActivity.type,
+      description: insertActivity.description,
+      metadata: redactSecrets(insertActivity.metadata) ?? null,
+      createdAt: new Date(),
+    };
+    this.activities.set(activity.id, activity);
+    publishChange({ type: "activity_created", activity });
+    return activity;
+  }
+
+  async getVoiceCommands(limit = 25): Promise<VoiceCommand[]> {
+    return this.own(this.voiceCommands)
+      .sort((a, b) => b.id - a.id)
+      .slice(0, limit);
+  }
+
+  async getVoiceCommand(id: number): Promise<VoiceCommand | undefined> {
+    return this.own(this.voiceCommands).find(c => c.id === id);
+  }
+
+  async createVoiceCommand(insertCommand: InsertVoiceCommand): Promise<VoiceCommand> {
+    const command: VoiceCommand = {
+      id: this.currentVoiceCommandId++,
+      userId: currentUserId(),
+      transcription: insertCommand.transcription,
+      intent: insertCommand.intent ?? null,
+      confidence: insertCommand.confidence ?? null,
+      aiResponse: insertCommand.aiResponse ?? null,
+      rawOutput: insertCommand.rawOutput ?? null,
+      model: insertCommand.model ?? null,
+      latencyMs: insertCommand.latencyMs ?? null,
+      processed: insertCommand.processed ?? false,
+      status: null,
+      result: null,
+      taskIds: null,
+      error: insertCommand.error ?? null,
+      rerunOfId: insertCommand.rerunOfId ?? null,
+      createdAt: new Date(),
+    };
+    this.voiceCommands.set(command.id, command);
+    return command;
+  }
+
+  async getUnprocessedVoiceCommands(): Promise<VoiceCommand[]> {
+    return this.own(this.voiceCommands).filter(c => !c.processed);
+  }
+
+  async updateVoiceCommand(id: number, updateCommand: UpdateVoiceCommand): Promise<VoiceCommand | undefined> {
+    const command = this.own(this.voiceCommands).find(c => c.id === id);
+    if (!command) return undefined;
+
+    const updated: VoiceCommand = { ...command, ...updateCommand };
+    this.voiceCommands.set(id, updated);
+    return updated;
+  }
+
+  async getVoiceSettings(): Promise<VoiceSettings> {
+    const userId = currentUserId();
+    const existing = this.voiceSettings.get(userId);
+    if (existing) return existing;
+
+    const settings: VoiceSettings = {
+      id: this.currentVoiceSettingsId++,
+      userId,
+      previewCommands: false,
+      autoApplyConfidence: 90,
+      confirmDestructive: true,
+      updatedAt: new Date(),
+    };
+    this.voiceSettings.set(userId, settings);
+    return settings;
+  }
+
+  async updateVoiceSettings(settingsData: UpdateVoiceSettings): Promise<VoiceSettings> {
+    const settings: VoiceSettings = { ...await this.getVoiceSettings(), ...settingsData, updatedAt: new Date() };
+    this.voiceSettings.set(settings.userId, settings);
+    return settings;
+  }
+
+  async getMicrosoftConfig(): Promise<MicrosoftConfig | undefined> {
+    const config = this.microsoftConfigs.get(currentUserId());
+    return config && openMicrosoftConfig(config);
+  }
+
+  async saveMicrosoftConfig(configData: Partial<InsertMicrosoftConfig>): Promise<MicrosoftConfig> {
+    const userId = currentUserId();
+    const existing = this.microsoftConfigs.get(userId);
+    const now = new Date();
+    const config: MicrosoftConfig = {
+      id: existing?.id ?? this.currentMicrosoftConfigId++,
+      userId,
+      clientId: null,
+      tenantId: null,
+      clientSecret: null,
+      accessToken: null,
+      refreshToken: null,
+      tokenExpiresAt: null,
+      syncListIds: null,
+      createdAt: now,
+      ...existing,
+      ...sealMicrosoftConfig(configData),
+      updatedAt: now,
+    };
+    this.microsoftConfigs.set(userId, config);
+    return openMicrosoftConfig(config);
+  }
+
+  async getMicrosoftDeltaLink(listId: string): Promise<string | undefined> {
+    return this.deltaLinks.get(`${currentUserId()}:${listId}`) || undefined;
+  }
+
+  async saveMicrosoftDeltaLink(listId: string, deltaLink: string | null): Promise<void> {
+    this.deltaLinks.set(`${currentUserId()}:${listId}`, deltaLink);
+  }
+
+  // Restores a copy of every table on failure. Writes from other requests that land while a
+  // transaction is running are rolled back with it, which is fine for a single-process dev store.
+  async transaction<T>(work: () => Promise<T>): Promise<T> {
+    if (transactionContext.getStore()) return work();
+
+    const snapshot = Object.fromEntries(Object.entries(this).map(([key, value]) => [
+      key,
+      value instanceof Map ? new Map(value) : Array.isArray(value) ? value.slice() : value,
+    ]));
+    const state: TransactionState = { changes: [], afterCommit: [] };
+
+    let result: T;
+    try {
+      result = await transactionContext.run(state, work);
+    } catch (error) {
+      Object.assign(this, snapshot);
+      throw error;
+    }
+    await finishTransaction(state);
+    return result;
+  }
+}
+
+// Checklist items and tag links belong to a user through their task
+function ownTaskIds() {
+  return conn().select({ id: tasks.id }).from(tasks).where(eq(tasks.userId, currentUserId()));
+}
+
+interface TaskSortKey extends TaskSortValue {
+  column: SQL;
+}
+
+// Timestamps compare as whole milliseconds; Postgres keeps microseconds that a JS Date would drop
+const sortColumns: Record<TaskSort, SQL[]> = {
+  priority: [
+    sql`coalesce(${tasks.aiScore}, 0)`,
+    sql`floor(extract(epoch from coalesce(${tasks.createdAt}, to_timestamp(0))) * 1000)`,
+    sql`${tasks.id}`,
+  ],
+  dueDate: [
+    sql`floor(extract(epoch from coalesce(${tasks.dueDate}, to_timestamp(${NO_DUE_DATE / 1000}) at time zone 'UTC')) * 1000)`,
+    sql`coalesce(${tasks.aiScore}, 0)`,
+    sql`${tasks.id}`,
+  ],
+  list: [
+    sql`coalesce(${lists.sortOrder}, ${NO_LIST_ORDER})`,
+    sql`coalesce(${tasks.aiScore}, 0)`,
+    sql`${tasks.id}`,
+  ],
+  created: [
+    sql`floor(extract(epoch from coalesce(${tasks.createdAt}, to_timestamp(0))) * 1000)`,
+    sql`${tasks.id}`,
+  ],
+};
+
+// SQL column for each shared sort value, position by position
+const taskSortKeys = Object.fromEntries(
+  Object.entries(taskSortValues).map(([sort, values]) => [
+    sort,
+    values.map((value, index) => ({ ...value, column: sortColumns[sort as TaskSort][index] })),
+  ]),
+) as Record<TaskSort, TaskSortKey[]>;
+
+// Cursors are opaque to clients: the last served row's sort-key values
+function encodeCursor(values: number[]): string {
+  return Buffer.from(JSON.stringify(values)).toString("base64url");
+}
+
+function decodeCursor(cursor: string, length: number): number[] {
+  try {
+    const values = JSON.parse(Buffer.from(cursor, "base64url").toString());
+    if (Array.isArray(values) && values.length === length && values.every(value => typeof value === "number")) {
+      return values;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new InvalidCursorError();
+}
+
+// Tag names are unique regardless of case; the first spelling wins
+function uniqueTagNames(names: string[]): string[] {
+  const seen = new Set<string>();
+  return names.map(name => name.trim()).filter(name => {
+    const key = name.toLowerCase();
+    if (!name || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+// Callers often pass a whole config back, so only the config columns are written
+function sealMicrosoftConfig(configData: Partial<InsertMicrosoftConfig>): Partial<InsertMicrosoftConfig> {
+  const { clientId, tenantId, clientSecret, accessToken, refreshToken, tokenExpiresAt, syncListIds } = configData;
+  return stripUndefined({
+    clientId,
+    tenantId,
+    clientSecret: clientSecret && encryptSecret(clientSecret),
+    accessToken: accessToken && encryptSecret(accessToken),
+    refreshToken: refreshToken && encryptSecret(refreshToken),
+    tokenExpiresAt,
+    syncListIds,
+  });
+}
+
+function openMicrosoftConfig(config: MicrosoftConfig): MicrosoftConfig {
+  return {
+    ...config,
+    clientSecret: config.clientSecret && decryptSecret(config.clientSecret),
+    accessToken: config.accessToken && decryptSecret(config.accessToken),
+    refreshToken: config.refreshToken && decryptSecret(config.refreshToken),
+  };
+}
+
+// Drizzle skips undefined columns on update; mirror that for the in-memory rows
+function stripUndefined<T extends object>(values: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(values).filter(([, value]) => value !== undefined),
+  ) as Partial<T>;
+}
+
+const backend = useMemoryStorage ? new MemStorage() : new DatabaseStorage();
+
+export const storage: IStorage = backend;
+export const userStorage: IUserStorage = backend;
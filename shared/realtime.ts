@@ -0,0 +1,19 @@
+import type { Activity, OpenTaskCount, PriorityInsights, Tag, Task } from "./schema";
+
+// WebSocket endpoint on the app's HTTP server; Vite's HMR socket shares the server in development
+export const REALTIME_PATH = "/ws";
+
+// Writes the storage layer publishes as they happen
+export type StorageChangeEvent =
+  | { type: "task_created"; task: Task }
+  | { type: "task_updated"; task: Task }
+  | { type: "task_deleted"; taskId: number }
+  | { type: "task_tags_updated"; taskId: number; tags: Tag[] }
+  | { type: "activity_created"; activity: Activity };
+
+// Aggregates over every task are recomputed on the server rather than patched client-side
+export type RealtimeEvent =
+  | StorageChangeEvent
+  | { type: "priority_insights"; insights: PriorityInsights }
+  | { type: "open_task_counts"; counts: OpenTaskCount[] }
+  | { type: "sync_completed"; syncedCount: number };
@@ -0,0 +1,81 @@
+import { addDays, addMonths, differenceInCalendarWeeks, getDaysInMonth, setDate, startOfDay } from "date-fns";
+import { weekdays, type RecurrenceRule } from "./schema";
+
+// Safety net for rules that can never match (e.g. corrupt data); no real rule needs this many steps
+const MAX_STEPS = 1000;
+
+function stepOnce(rule: RecurrenceRule, from: Date): Date {
+  switch (rule.type) {
+    case "daily":
+      return addDays(from, rule.interval);
+
+    case "weekly": {
+      const days = rule.daysOfWeek.map(day => weekdays.indexOf(day));
+      for (let offset = 1; offset <= 7 * (rule.interval + 1); offset++) {
+        const candidate = addDays(from, offset);
+        const weeksApart = differenceInCalendarWeeks(candidate, from);
+        if (weeksApart % rule.interval === 0 && days.includes(candidate.getDay())) {
+          return candidate;
+        }
+      }
+      return addDays(from, 7 * rule.interval);
+    }
+
+    case "monthly": {
+      const next = addMonths(from, rule.interval);
+      if (!rule.dayOfMonth) return next;
+      // Day 31 in a 30-day month lands on its last day
+      return setDate(next, Math.min(rule.dayOfMonth, getDaysInMonth(next)));
+    }
+  }
+}
+
+// Due date of the occurrence after `from`, skipping occurrences already in the past
+export function getNextOccurrence(rule: RecurrenceRule, from: Date, now = new Date()): Date {
+  const today = startOfDay(now);
+  let next = stepOnce(rule, from);
+
+  for (let steps = 0; next < today && steps < MAX_STEPS; steps++) {
+    next = stepOnce(rule, next);
+  }
+
+  return next;
+}
+
+// First due date for a newly recurring task: today if it matches the rule, otherwise the next match
+export function getFirstOccurrence(rule: RecurrenceRule, now = new Date()): Date {
+  const today = startOfDay(now);
+
+  const matchesToday =
+    rule.type === "daily" ||
+    (rule.type === "weekly" && rule.daysOfWeek.includes(weekdays[today.getDay()])) ||
+    (rule.type === "monthly" && (!rule.dayOfMonth || rule.dayOfMonth === today.getDate()));
+
+  return matchesToday ? today : getNextOccurrence(rule, today, now);
+}
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+function ordinal(n: number): string {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? "th" : ["th", "st", "nd", "rd"][n % 10] || "th";
+  return `${n}${suffix}`;
+}
+
+// Human-readable rule, e.g. "Every Monday and Thursday" or "Every 3 days"
+export function describeRecurrence(rule: RecurrenceRule): string {
+  switch (rule.type) {
+    case "daily":
+      return rule.interval === 1 ? "Every day" : `Every ${rule.interval} days`;
+
+    case "weekly": {
+      const days = rule.daysOfWeek.map(capitalize);
+      const dayList = days.length > 1 ? `${days.slice(0, -1).join(", ")} and ${days[days.length - 1]}` : days[0];
+      return rule.interval === 1 ? `Every ${dayList}` : `Every ${rule.interval} weeks on ${dayList}`;
+    }
+
+    case "monthly": {
+      const every = rule.interval === 1 ? "Every month" : `Every ${rule.interval} months`;
+      return rule.dayOfMonth ? `${every} on the ${ordinal(rule.dayOfMonth)}` : every;
+    }
+  }
+}
@@ -1,25 +1,114 @@
-import { pgTable, text, serial, integer, boolean, timestamp, jsonb } from "drizzle-orm/pg-core";
-import { relations } from "drizzle-orm";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, primaryKey, index, unique, type AnyPgColumn } from "drizzle-orm/pg-core";
+import { relations, sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+export const weekdays = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"] as const;
+
+// "Every N days" is a daily rule with an interval
+export const recurrenceRuleSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("daily"),
+    interval: z.number().int().min(1).default(1),
+  }),
+  z.object({
+    type: z.literal("weekly"),
+    interval: z.number().int().min(1).default(1),
+    daysOfWeek: z.array(z.enum(weekdays)).min(1),
+  }),
+  z.object({
+    type: z.literal("monthly"),
+    interval: z.number().int().min(1).default(1),
+    dayOfMonth: z.number().int().min(1).max(31).optional(),
+  }),
+]);
+
+// "@work" and "#errand" are both the tag "work"/"errand"; the prefix is how people say it, not part of the name
+export const tagNameSchema = z.string().trim().transform(name => name.replace(/^[@#]+/, "").trim()).pipe(z.string().min(1, "Tag name is required"));
+export const tagNamesSchema = z.array(tagNameSchema);
+
+export const users = pgTable("users", {
+  id: serial("id").primaryKey(),
+  username: text("username").notNull().unique(),
+  password: text("password").notNull(), // scrypt hash, see server/lib/passwords.ts
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Everything below belongs to one user; names and Microsoft IDs are only unique within an account
+export const lists = pgTable("lists", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  color: text("color"),
+  icon: text("icon"),
+  sortOrder: integer("sort_order").default(0),
+  microsoftListId: text("microsoft_list_id"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  userNameUnique: unique("lists_user_name_unique").on(table.userId, table.name),
+  userMicrosoftIdUnique: unique("lists_user_microsoft_list_id_unique").on(table.userId, table.microsoftListId),
+}));
+
 export const tasks = pgTable("tasks", {
   id: serial("id").primaryKey(),
-  microsoftId: text("microsoft_id").unique(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  microsoftId: text("microsoft_id"),
+  microsoftListId: text("microsoft_list_id"),
   title: text("title").notNull(),
   description: text("description"),
   completed: boolean("completed").default(false),
   priority: text("priority", { enum: ["low", "normal", "medium", "high"] }).default("normal"),
   dueDate: timestamp("due_date"),
-  listName: text("list_name").default("Tasks"),
+  listId: integer("list_id").references(() => lists.id, { onDelete: "set null" }),
+  recurrence: jsonb("recurrence").$type<RecurrenceRule>(),
   aiScore: integer("ai_score").default(0),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => ({
+  userMicrosoftIdUnique: unique("tasks_user_microsoft_id_unique").on(table.userId, table.microsoftId),
+  // Backs /api/tasks/search; the expression must match the one the search query uses.
+  // The trigram index needs the pg_trgm extension (npm run db:push creates it first).
+  searchIdx: index("tasks_search_idx").using("gin", sql`to_tsvector('english', ${table.title} || ' ' || coalesce(${table.description}, ''))`),
+  titleTrgmIdx: index("tasks_title_trgm_idx").using("gin", table.title.op("gin_trgm_ops")),
+}));
+
+export const checklistItems = pgTable("checklist_items", {
+  id: serial("id").primaryKey(),
+  taskId: integer("task_id").notNull().references(() => tasks.id, { onDelete: "cascade" }),
+  microsoftId: text("microsoft_id"),
+  title: text("title").notNull(),
+  completed: boolean("completed").default(false),
+  sortOrder: integer("sort_order").default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  // Steps belong to a user through their task
+  taskMicrosoftIdUnique: unique("checklist_items_task_microsoft_id_unique").on(table.taskId, table.microsoftId),
+}));
+
+// Tag names double as Microsoft To Do categories
+export const tags = pgTable("tags", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  color: text("color"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  userNameUnique: unique("tags_user_name_unique").on(table.userId, table.name),
+}));
+
+export const taskTags = pgTable("task_tags", {
+  taskId: integer("task_id").notNull().references(() => tasks.id, { onDelete: "cascade" }),
+  tagId: integer("tag_id").notNull().references(() => tags.id, { onDelete: "cascade" }),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.taskId, table.tagId] }),
+}));
 
 export const activities = pgTable("activities", {
   id: serial("id").primaryKey(),
-  type: text("type").notNull(), // voice_command, task_completed, sync, ai_insight
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  type: text("type").notNull(), // voice_command, task_completed, sync, ai_insight, auth_error
   description: text("description").notNull(),
   metadata: jsonb("metadata"),
   createdAt: timestamp("created_at").defaultNow(),
@@ -27,29 +116,105 @@ export const activities = pgTable("activities", {
 
 export const voiceCommands = pgTable("voice_commands", {
   id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   transcription: text("transcription").notNull(),
-  intent: text("intent"), // add_task, update_task, complete_task, set_priority
-  aiResponse: jsonb("ai_response"),
+  intent: text("intent"), // the actions' intent (add_task, delete_task, ...), or "multiple" when they differ
+  confidence: integer("confidence"), // percent, of the least certain action
+  aiResponse: jsonb("ai_response"), // the validated interpretation: { response, actions }
+  rawOutput: text("raw_output"), // the model's reply as sent; null when the rule-based parser understood the command
+  model: text("model"), // "rules" for the rule-based parser
+  latencyMs: integer("latency_ms"), // time taken to interpret the command
   processed: boolean("processed").default(false),
+  status: text("status").$type<VoiceCommandStatus>(),
+  result: jsonb("result").$type<VoiceCommandResponse>(), // the response, with what happened to each action
+  taskIds: jsonb("task_ids").$type<number[]>(), // tasks the command created, changed or looked up
+  error: text("error"),
+  rerunOfId: integer("rerun_of_id").references((): AnyPgColumn => voiceCommands.id, { onDelete: "set null" }),
   createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  userCreatedIdx: index("voice_commands_user_created_idx").on(table.userId, table.createdAt),
+}));
+
+// One row per user, created with these defaults on first use
+export const voiceSettings = pgTable("voice_settings", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().unique().references(() => users.id, { onDelete: "cascade" }),
+  previewCommands: boolean("preview_commands").notNull().default(false), // show the plan before applying it
+  autoApplyConfidence: integer("auto_apply_confidence").notNull().default(90), // percent; previewed plans at or above it apply directly
+  confirmDestructive: boolean("confirm_destructive").notNull().default(true), // always preview deletes
+  updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// One Microsoft account connection per user
 export const microsoftConfig = pgTable("microsoft_config", {
   id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().unique().references(() => users.id, { onDelete: "cascade" }),
   clientId: text("client_id"),
   tenantId: text("tenant_id"),
   clientSecret: text("client_secret"),
   accessToken: text("access_token"),
   refreshToken: text("refresh_token"),
   tokenExpiresAt: timestamp("token_expires_at"),
+  syncListIds: jsonb("sync_list_ids").$type<string[]>(), // null syncs every list
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
-export const tasksRelations = relations(tasks, ({ many }) => ({
+// Graph delta-query cursor per Microsoft To Do list
+export const microsoftSyncState = pgTable("microsoft_sync_state", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  listId: text("list_id").notNull(),
+  deltaLink: text("delta_link"),
+  lastSyncedAt: timestamp("last_synced_at"),
+}, (table) => ({
+  userListUnique: unique("microsoft_sync_state_user_list_unique").on(table.userId, table.listId),
+}));
+
+export const usersRelations = relations(users, ({ many }) => ({
+  lists: many(lists),
+  tasks: many(tasks),
+  tags: many(tags),
+  activities: many(activities),
+  voiceCommands: many(voiceCommands),
+}));
+
+export const listsRelations = relations(lists, ({ many }) => ({
+  tasks: many(tasks),
+}));
+
+export const tasksRelations = relations(tasks, ({ one, many }) => ({
+  list: one(lists, {
+    fields: [tasks.listId],
+    references: [lists.id],
+  }),
+  checklistItems: many(checklistItems),
+  taskTags: many(taskTags),
   activities: many(activities),
 }));
 
+export const tagsRelations = relations(tags, ({ many }) => ({
+  taskTags: many(taskTags),
+}));
+
+export const taskTagsRelations = relations(taskTags, ({ one }) => ({
+  task: one(tasks, {
+    fields: [taskTags.taskId],
+    references: [tasks.id],
+  }),
+  tag: one(tags, {
+    fields: [taskTags.tagId],
+    references: [tags.id],
+  }),
+}));
+
+export const checklistItemsRelations = relations(checklistItems, ({ one }) => ({
+  task: one(tasks, {
+    fields: [checklistItems.taskId],
+    references: [tasks.id],
+  }),
+}));
+
 export const activitiesRelations = relations(activities, ({ one }) => ({
   task: one(tasks, {
     fields: [activities.id],
@@ -64,33 +229,281 @@ export const voiceCommandsRelations = relations(voiceCommands, ({ one }) => ({
   }),
 }));
 
-export const insertTaskSchema = createInsertSchema(tasks).omit({
+// Usernames are case-insensitive; storage lowercases them
+export const insertUserSchema = createInsertSchema(users, {
+  username: (schema) => schema.trim().toLowerCase().min(3, "Username must be at least 3 characters").max(50).regex(/^[a-z0-9_.-]+$/, "Use letters, numbers, dots, dashes or underscores"),
+  password: (schema) => schema.min(8, "Password must be at least 8 characters").max(200),
+}).pick({
+  username: true,
+  password: true,
+});
+
+export const loginBodySchema = z.object({
+  username: z.string().trim().toLowerCase().min(1, "Username is required"),
+  password: z.string().min(1, "Password is required"),
+});
+
+// Storage sets userId from the signed-in user, so no insert schema accepts it
+export const insertListSchema = createInsertSchema(lists, {
+  name: (schema) => schema.trim().min(1, "List name is required"),
+}).omit({
+  id: true,
+  userId: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertTaskSchema = createInsertSchema(tasks, {
+  title: (schema) => schema.trim().min(1, "Title is required"),
+  // JSON bodies carry dates as ISO strings
+  dueDate: z.coerce.date().nullable().optional(),
+  recurrence: recurrenceRuleSchema.nullable().optional(),
+}).omit({
+  id: true,
+  userId: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertChecklistItemSchema = createInsertSchema(checklistItems, {
+  title: (schema) => schema.trim().min(1, "Step title is required"),
+}).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
+export const insertTagSchema = createInsertSchema(tags, {
+  name: tagNameSchema,
+}).omit({
+  id: true,
+  userId: true,
+  createdAt: true,
+});
+
 export const insertActivitySchema = createInsertSchema(activities).omit({
   id: true,
+  userId: true,
   createdAt: true,
 });
 
+// The outcome is recorded with storage.updateVoiceCommand once the command has run
 export const insertVoiceCommandSchema = createInsertSchema(voiceCommands).omit({
   id: true,
+  userId: true,
+  status: true,
+  result: true,
+  taskIds: true,
   createdAt: true,
 });
 
-export const insertMicrosoftConfigSchema = createInsertSchema(microsoftConfig).omit({
+export const insertMicrosoftConfigSchema = createInsertSchema(microsoftConfig, {
+  syncListIds: z.array(z.string()).nullable().optional(),
+}).omit({
   id: true,
+  userId: true,
   createdAt: true,
   updatedAt: true,
 });
 
+// API request schemas. Bodies only accept the fields a client may set; anything else
+// (microsoftId, createdAt, ...) is stripped before it reaches storage.
+
+// Route params and query strings arrive as strings
+const idSchema = z.coerce.number({ invalid_type_error: "Must be a numeric ID" }).int().positive();
+
+export const idParamsSchema = z.object({
+  id: idSchema,
+});
+
+export const createListBodySchema = insertListSchema.pick({
+  name: true,
+  color: true,
+  icon: true,
+});
+
+export const updateListBodySchema = createListBodySchema.partial();
+
+export const reorderListsBodySchema = z.object({
+  ids: z.array(z.number().int().positive()),
+});
+
+export const createTaskBodySchema = insertTaskSchema.pick({
+  title: true,
+  description: true,
+  priority: true,
+  dueDate: true,
+  listId: true,
+  recurrence: true,
+}).extend({
+  tags: tagNamesSchema.optional(),
+});
+
+export const updateTaskBodySchema = insertTaskSchema.pick({
+  title: true,
+  description: true,
+  completed: true,
+  priority: true,
+  dueDate: true,
+  listId: true,
+  recurrence: true,
+}).extend({
+  tags: tagNamesSchema,
+}).partial();
+
+export const createChecklistItemBodySchema = insertChecklistItemSchema.pick({
+  taskId: true,
+  title: true,
+});
+
+export const updateChecklistItemBodySchema = insertChecklistItemSchema.pick({
+  title: true,
+  completed: true,
+  sortOrder: true,
+}).partial();
+
+export const taskIdQuerySchema = z.object({
+  taskId: idSchema.optional(),
+});
+
+export const activitiesQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(10),
+});
+
+export const voiceCommandBodySchema = z.object({
+  transcription: z.string().trim().min(1, "Transcription is required"),
+});
+
+export const voiceCommandsQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+});
+
+// Answers the question a needs_clarification response asked: a picked task, a spoken reply
+// ("the second one"), or giving up on the command
+export const voiceClarificationBodySchema = z.object({
+  taskId: z.number().int().positive().optional(),
+  answer: z.string().trim().min(1).optional(),
+  cancel: z.literal(true).optional(),
+}).refine(body => [body.taskId, body.answer, body.cancel].filter(value => value !== undefined).length === 1, {
+  message: "Send exactly one of taskId, answer or cancel",
+});
+
+export const microsoftConfigBodySchema = z.object({
+  clientId: z.string().trim().min(1, "Client ID is required"),
+  tenantId: z.string().trim().min(1, "Tenant ID is required"),
+  clientSecret: z.string().trim().min(1, "Client secret is required"),
+});
+
+export const voiceSettingsBodySchema = z.object({
+  previewCommands: z.boolean().optional(),
+  autoApplyConfidence: z.number().int().min(0).max(100).optional(),
+  confirmDestructive: z.boolean().optional(),
+});
+
+export const microsoftListsBodySchema = z.object({
+  listIds: z.array(z.string().min(1)),
+});
+
+export const authCallbackQuerySchema = z.object({
+  code: z.string().optional(),
+  state: z.string().optional(),
+  error: z.string().optional(),
+  error_description: z.string().optional(),
+});
+
+// Query string of GET /api/tasks; every field arrives as a string
+export const taskQuerySchema = z.object({
+  status: z.enum(["all", "open", "completed"]).default("all"),
+  priority: z.enum(["low", "normal", "medium", "high"]).optional(),
+  listId: z.coerce.number().int().positive().optional(),
+  tag: tagNameSchema.optional(),
+  dueFrom: z.coerce.date().optional(),
+  dueTo: z.coerce.date().optional(),
+  q: z.string().trim().min(1).optional(),
+  sort: z.enum(["priority", "dueDate", "list", "created"]).default("priority"),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+}).refine(query => !query.dueFrom || !query.dueTo || query.dueFrom <= query.dueTo, {
+  message: "dueFrom must not be after dueTo",
+  path: ["dueFrom"],
+});
+
+export const taskSearchQuerySchema = z.object({
+  q: z.string().trim().min(1, "Search text is required"),
+  status: z.enum(["all", "open", "completed"]).default("all"),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+export type RecurrenceRule = z.infer<typeof recurrenceRuleSchema>;
+export type Weekday = typeof weekdays[number];
+export type User = typeof users.$inferSelect;
+export type InsertUser = z.infer<typeof insertUserSchema>;
+// What the API returns for a user; the password hash never leaves the server
+export type PublicUser = Omit<User, "password">;
+export type List = typeof lists.$inferSelect;
+export type InsertList = z.infer<typeof insertListSchema>;
 export type Task = typeof tasks.$inferSelect;
 export type InsertTask = z.infer<typeof insertTaskSchema>;
+export type ChecklistItem = typeof checklistItems.$inferSelect;
+export type InsertChecklistItem = z.infer<typeof insertChecklistItemSchema>;
+export type Tag = typeof tags.$inferSelect;
+export type InsertTag = z.infer<typeof insertTagSchema>;
+export type TaskTag = typeof taskTags.$inferSelect;
+export type TaskQuery = z.infer<typeof taskQuerySchema>;
+export type TaskSort = TaskQuery["sort"];
+export type TaskPage = { tasks: Task[]; nextCursor: string | null };
+export type TaskSearchQuery = z.infer<typeof taskSearchQuerySchema>;
+// similarity is title closeness in [0, 1]; rank orders results and also rewards full-text matches
+export type TaskSearchResult = { task: Task; rank: number; similarity: number };
+export type OpenTaskCount = { listId: number | null; count: number };
+export type PriorityInsights = { urgent: number; dueSoon: number; suggested: number };
 export type Activity = typeof activities.$inferSelect;
 export type InsertActivity = z.infer<typeof insertActivitySchema>;
 export type VoiceCommand = typeof voiceCommands.$inferSelect;
 export type InsertVoiceCommand = z.infer<typeof insertVoiceCommandSchema>;
+// What interpreting and running a command records on it afterwards
+export type UpdateVoiceCommand = Partial<Omit<VoiceCommand, "id" | "userId" | "transcription" | "createdAt">>;
+// POST /api/voice-command reports on every action of the command; a failed one rolls the rest back.
+// "answered" is a read-only query, so there is nothing of it to roll back; "proposed" awaits confirmation.
+export type VoiceActionStatus = "applied" | "answered" | "failed" | "rolled_back" | "skipped" | "needs_clarification" | "proposed";
+export type VoiceActionResult = { intent: string; status: VoiceActionStatus; message: string; taskId?: number };
+// When an action can't tell which task it means, nothing is applied and the candidates come back best first
+export type VoiceTaskCandidate = { taskId: number; title: string; completed: boolean; dueDate: string | null; listName: string | null };
+export type VoiceClarification = { question: string; actionIndex: number; candidates: VoiceTaskCandidate[] };
+// A command held back for confirmation, in the same shape POST /api/voice-command/confirm takes back.
+// Actions on existing tasks list the tasks they might mean; taskId is set when one is a confident match.
+export type VoicePlanTaskData = {
+  title?: string;
+  description?: string;
+  priority?: "low" | "normal" | "medium" | "high";
+  dueDate?: string;
+  completed?: boolean;
+  listName?: string;
+  checklistItem?: string;
+  recurrence?: RecurrenceRule;
+  tags?: string[];
+};
+export type VoicePlanAction = {
+  intent: string;
+  confidence: number;
+  taskData?: VoicePlanTaskData;
+  query?: Record<string, unknown>;
+  taskId?: number;
+  candidates: VoiceTaskCandidate[];
+};
+export type VoicePlan = { reason: string; actions: VoicePlanAction[] };
+export type VoiceCommandResponse = {
+  success: boolean;
+  response: string;
+  actions: VoiceActionResult[];
+  clarification?: VoiceClarification;
+  plan?: VoicePlan;
+};
+// How a command ended up; the last step decides, so a confirmed plan goes from awaiting_confirmation to applied
+export type VoiceCommandStatus = "applied" | "answered" | "failed" | "needs_clarification" | "awaiting_confirmation" | "cancelled";
+export type VoiceClarificationBody = z.infer<typeof voiceClarificationBodySchema>;
+export type VoiceSettings = typeof voiceSettings.$inferSelect;
+export type UpdateVoiceSettings = z.infer<typeof voiceSettingsBodySchema>;
 export type MicrosoftConfig = typeof microsoftConfig.$inferSelect;
 export type InsertMicrosoftConfig = z.infer<typeof insertMicrosoftConfigSchema>;
+export type MicrosoftSyncState = typeof microsoftSyncState.$inferSelect;
@@ -0,0 +1,59 @@
+import type { Task, TaskSort } from "./schema";
+
+// Sort orders for task pages, shared so the client can place pushed tasks where the server would page them
+
+// Stand-ins for missing values so every sort key is a plain number: undated tasks and tasks
+// without a list sort last, matching the coalesce() in the SQL columns
+export const NO_DUE_DATE = Date.UTC(9999, 11, 31);
+export const NO_LIST_ORDER = 2147483647;
+
+export type SortDirection = "asc" | "desc";
+
+export interface TaskSortValue {
+  direction: SortDirection;
+  value: (task: Task, listOrder: number | null) => number;
+}
+
+// Tasks parsed from JSON carry ISO strings where the server has Dates
+const toTime = (value: Date | string | null) => (value === null ? null : new Date(value).getTime());
+
+const aiScore: TaskSortValue = {
+  direction: "desc",
+  value: task => task.aiScore ?? 0,
+};
+
+const createdAt: TaskSortValue = {
+  direction: "desc",
+  value: task => toTime(task.createdAt) ?? 0,
+};
+
+const id = (direction: SortDirection): TaskSortValue => ({
+  direction,
+  value: task => task.id,
+});
+
+// Each ordering ends with the task ID, so it is total and a cursor pins one exact position
+export const taskSortValues: Record<TaskSort, TaskSortValue[]> = {
+  priority: [aiScore, createdAt, id("desc")],
+  dueDate: [
+    { direction: "asc", value: task => toTime(task.dueDate) ?? NO_DUE_DATE },
+    aiScore,
+    id("asc"),
+  ],
+  list: [
+    { direction: "asc", value: (_task, listOrder) => listOrder ?? NO_LIST_ORDER },
+    aiScore,
+    id("desc"),
+  ],
+  created: [createdAt, id("desc")],
+};
+
+export function compareSortValues(orders: { direction: SortDirection }[], a: number[], b: number[]): number {
+  for (let index = 0; index < orders.length; index++) {
+    if (a[index] !== b[index]) {
+      const ascending = a[index] - b[index];
+      return orders[index].direction === "asc" ? ascending : -ascending;
+    }
+  }
+  return 0;
+}